@@ -132,7 +132,7 @@ export class CommandHandler {
   /**
    * Handle /memfw quarantine subcommands
    */
-  private handleQuarantine(args: string[], context: CommandContext): CommandResult {
+  private async handleQuarantine(args: string[], context: CommandContext): Promise<CommandResult> {
     const subCommand = args[0]?.toLowerCase() ?? 'list';
 
     switch (subCommand) {
@@ -210,6 +210,14 @@ export class CommandHandler {
           lines.push('', '### Matched Attack Pattern', `> ${memory.layer2Exemplar}`);
         }
 
+        const flaggedSpans = memory.spans?.filter((span) => span.flagged) ?? [];
+        if (flaggedSpans.length > 0) {
+          lines.push('', '### Flagged Spans');
+          for (const span of flaggedSpans) {
+            lines.push(`- [${span.start}-${span.end}] ${this.truncate(span.text, 80)}`);
+          }
+        }
+
         lines.push('', '### Content', '```', memory.text, '```');
 
         return {
@@ -225,7 +233,7 @@ export class CommandHandler {
           return { success: false, message: 'Usage: /memfw quarantine approve <id>' };
         }
 
-        const success = this.skill.approveQuarantined(id, context.userId);
+        const success = await this.skill.approveQuarantined(id, context.userId);
         if (!success) {
           return { success: false, message: `Failed to approve: ${id}` };
         }
@@ -242,7 +250,7 @@ export class CommandHandler {
           return { success: false, message: 'Usage: /memfw quarantine reject <id>' };
         }
 
-        const success = this.skill.rejectQuarantined(id, context.userId);
+        const success = await this.skill.rejectQuarantined(id, context.userId);
         if (!success) {
           return { success: false, message: `Failed to reject: ${id}` };
         }
@@ -349,6 +357,9 @@ export class CommandHandler {
       `- enabled: ${config.detection.enabled}`,
       `- sensitivity: ${config.detection.sensitivity}`,
       `- enableLayer3: ${config.detection.enableLayer3}`,
+      `- layer3Model: ${config.detection.layer3Provider ?? 'openai'}/${config.detection.layer3Model}`,
+      `- embeddingProvider: ${config.detection.embeddingProvider}`,
+      `- learning: ${config.learning?.enabled ?? false}`,
       '',
       '### Notifications',
       `- onQuarantine: ${config.notifications.onQuarantine}`,
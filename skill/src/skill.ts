@@ -18,8 +18,19 @@ import {
   MemoryProvenance,
   Notifier,
   createNotifier,
+  createEmbeddingProvider,
+  createLLMProvider,
+  EmbeddingCache,
+  loadExemplarPacks,
+  mergeExemplars,
+  LearnedExemplarStore,
+  ExemplarLearner,
   shouldApplyLayer3Verdict,
+  verifyAgentJudgeResponse,
+  loadAgentJudgeKey,
+  readJudgeNonce,
 } from 'memfw';
+import type { EmbeddingProvider, EmbeddingProviderType, LLMProvider, LLMProviderType } from 'memfw';
 import type { SkillContext, MemoryContext } from './index.js';
 
 /**
@@ -31,8 +42,35 @@ export interface SkillConfig {
     enableLayer3: boolean;
     useAgentJudge: boolean; // Use agent's own LLM for Layer 3 evaluation
     layer3Model: string;
+    /** Provider serving layer3Model (default: openai) */
+    layer3Provider?: LLMProviderType;
     sensitivity: 'low' | 'medium' | 'high';
-    embeddingProvider: 'local' | 'openai';
+    embeddingProvider: EmbeddingProviderType;
+  };
+  /** Options for the selected embedding provider */
+  embeddings?: {
+    model?: string;
+    baseURL?: string;
+    /** Environment variable holding the embedding API key */
+    apiKeyEnv?: string;
+    dimensions?: number;
+  };
+  /** Options for the Layer 3 LLM provider */
+  llm?: {
+    baseURL?: string;
+    /** Environment variable holding the LLM API key */
+    apiKeyEnv?: string;
+    timeoutMs?: number;
+  };
+  /** Additional attack exemplar packs (paths relative to the skill directory) */
+  exemplars?: {
+    packs?: string[];
+  };
+  /** Learn exemplars from rejected quarantine items (opt-in) */
+  learning?: {
+    enabled: boolean;
+    includeReasoning?: boolean;
+    dedupThreshold?: number;
   };
   trust: Record<string, TrustLevel>;
   notifications: {
@@ -50,6 +88,8 @@ export interface SkillConfig {
  */
 export interface TagResult {
   allowed: boolean;
+  /** The analyzed content, checked against the agent judge request's content hash */
+  content: string;
   provenance: MemoryProvenance;
   detection: DetectionResult;
   quarantineId?: string;
@@ -64,6 +104,8 @@ export interface AgentJudgeResponse {
   verdict: 'SAFE' | 'SUSPICIOUS' | 'DANGEROUS';
   confidence: number;
   reasoning: string;
+  /** Request nonce echoed by the agent (required to apply the verdict) */
+  nonce?: string;
 }
 
 /**
@@ -73,8 +115,12 @@ export class MemfwSkill {
   private detector: Detector | null = null;
   private provenanceStore: ProvenanceStore | null = null;
   private quarantineStore: QuarantineStore | null = null;
+  private embeddingCache: EmbeddingCache | null = null;
+  private learnedStore: LearnedExemplarStore | null = null;
+  private learner: ExemplarLearner | null = null;
   private tagger: IngressTagger | null = null;
   private config: SkillConfig | null = null;
+  private agentJudgeKey: string = '';
   private skillDir: string = '';
   private initialized = false;
 
@@ -96,24 +142,39 @@ export class MemfwSkill {
     }
 
     // Initialize stores
+    this.agentJudgeKey = loadAgentJudgeKey(path.join(dataDir, 'agent-judge.key'));
     this.provenanceStore = new ProvenanceStore(path.join(dataDir, 'provenance.db'));
     this.quarantineStore = new QuarantineStore(path.join(dataDir, 'quarantine.db'));
+    this.learnedStore = new LearnedExemplarStore(path.join(dataDir, 'learned.db'));
 
     // Initialize detector
     const openaiApiKey = process.env.OPENAI_API_KEY;
-    const enableLayer2 = this.config.detection.enabled && !!openaiApiKey;
+    const embeddingProvider = this.config.detection.enabled ? this.createEmbeddingProvider() : null;
+    const enableLayer2 = embeddingProvider !== null;
+    if (enableLayer2) {
+      this.embeddingCache = new EmbeddingCache(path.join(dataDir, 'embeddings.db'));
+    }
     // Only use external LLM judge if explicitly enabled AND not using agent judge
-    const enableLayer3 = this.config.detection.enableLayer3 &&
-                         !this.config.detection.useAgentJudge &&
-                         !!openaiApiKey;
+    const llmProvider = this.config.detection.enableLayer3 && !this.config.detection.useAgentJudge
+      ? this.createLLMProvider()
+      : null;
+    const enableLayer3 = llmProvider !== null;
 
     this.detector = new Detector({
       openaiApiKey,
+      embeddingProvider: embeddingProvider ?? undefined,
+      embeddingCache: this.embeddingCache ?? undefined,
       enableLayer2,
       enableLayer3,
       useAgentJudge: this.config.detection.useAgentJudge,
-      layer3Model: this.config.detection.layer3Model,
+      agentJudgeKey: this.agentJudgeKey,
+      llmProvider: llmProvider ?? undefined,
       similarityThreshold: this.getSensitivityThreshold(),
+      exemplars: mergeExemplars(
+        loadExemplarPacks((this.config.exemplars?.packs ?? []).map((p) => path.resolve(this.skillDir, p))),
+        this.learnedStore.getExemplars()
+      ),
+      benignExemplars: this.learnedStore.getBenignExemplars(),
     });
 
     if (enableLayer2) {
@@ -178,6 +239,43 @@ export class MemfwSkill {
     return defaultConfig;
   }
 
+  /**
+   * Build the configured Layer 2 embedding provider (null if unavailable)
+   */
+  private createEmbeddingProvider(): EmbeddingProvider | null {
+    const provider = this.config?.detection.embeddingProvider ?? 'openai';
+    const embeddings = this.config?.embeddings ?? {};
+    // Never forward OPENAI_API_KEY to a self-hosted server implicitly
+    const apiKeyEnv = embeddings.apiKeyEnv ?? (provider === 'openai' ? 'OPENAI_API_KEY' : undefined);
+
+    return createEmbeddingProvider({
+      provider,
+      model: embeddings.model,
+      baseURL: embeddings.baseURL,
+      apiKey: apiKeyEnv ? process.env[apiKeyEnv] : undefined,
+      dimensions: embeddings.dimensions,
+    });
+  }
+
+  /**
+   * Build the Layer 3 LLM provider serving layer3Model (null if unavailable)
+   */
+  private createLLMProvider(): LLMProvider | null {
+    const provider = this.config?.detection.layer3Provider ?? 'openai';
+    const llm = this.config?.llm ?? {};
+    // Never forward a hosted provider's key to a self-hosted server implicitly
+    const apiKeyEnv = llm.apiKeyEnv ??
+      (provider === 'openai' ? 'OPENAI_API_KEY' : provider === 'anthropic' ? 'ANTHROPIC_API_KEY' : undefined);
+
+    return createLLMProvider({
+      provider,
+      model: this.config?.detection.layer3Model,
+      baseURL: llm.baseURL,
+      apiKey: apiKeyEnv ? process.env[apiKeyEnv] : undefined,
+      timeoutMs: llm.timeoutMs,
+    });
+  }
+
   /**
    * Save configuration to file
    */
@@ -230,11 +328,12 @@ export class MemfwSkill {
     if (result.detection.agentJudgeRequest) {
       return {
         ...result,
+        content,
         agentJudgePrompt: result.detection.agentJudgeRequest.evaluationPrompt,
       };
     }
 
-    return result;
+    return { ...result, content };
   }
 
   /**
@@ -245,15 +344,47 @@ export class MemfwSkill {
    *
    * Safeguard: Layer 3 cannot override strong Layer 1+2 signals
    * If Layer 2 similarity > threshold + 0.1, SAFE verdict is ignored
+   *
+   * Safeguard: the response must echo the request's nonce, and the request
+   * must have been issued for the analyzed content; otherwise the verdict
+   * is rejected, the content is held as SUSPICIOUS and the mismatch is
+   * recorded as an agent_judge_mismatch provenance flag.
    */
-  applyAgentJudgeVerdict(
-    result: TagResult,
-    agentResponse: AgentJudgeResponse
-  ): TagResult {
+  applyAgentJudgeVerdict(result: TagResult, agentResponse: AgentJudgeResponse): TagResult {
     const detection = result.detection;
 
     // Check if we should apply the verdict (safeguard against manipulation)
     if (detection.agentJudgeRequest) {
+      const mismatch = verifyAgentJudgeResponse(detection.agentJudgeRequest, agentResponse.nonce, {
+        key: this.agentJudgeKey || undefined,
+        text: result.content,
+      });
+      if (mismatch) {
+        const flags = [...(result.provenance.flags ?? []), `agent_judge_mismatch: ${mismatch.kind}`];
+        this.provenanceStore?.update(result.provenance.id, { flags });
+        return {
+          ...result,
+          allowed: false,
+          provenance: { ...result.provenance, flags },
+          detection: {
+            ...detection,
+            passed: false,
+            score: Math.max(detection.score, 0.7),
+            layer3: {
+              evaluated: true,
+              verdict: 'SUSPICIOUS',
+              confidence: 0.5,
+              reasoning: 'Agent judge response rejected, flagging for manual review as a precaution.',
+              error: `Agent judge response rejected: ${mismatch.message}`,
+              mismatch: mismatch.kind,
+            },
+            reason: detection.reason +
+              `; Layer 3 agent judge response rejected (${mismatch.kind} mismatch); treated as SUSPICIOUS`,
+            agentJudgeRequest: undefined,
+          },
+        };
+      }
+
       const { layer2Similarity, layer2Threshold } = detection.agentJudgeRequest.context;
 
       // Use the exported safeguard function
@@ -347,7 +478,7 @@ export class MemfwSkill {
       }
     }
 
-    return { verdict, confidence, reasoning };
+    return { verdict, confidence, reasoning, nonce: readJudgeNonce(responseText) };
   }
 
   /**
@@ -422,8 +553,9 @@ export class MemfwSkill {
 
   /**
    * Approve a quarantined memory
+   * When learning is enabled, the approved text becomes a benign exemplar.
    */
-  approveQuarantined(id: string, reviewedBy?: string): boolean {
+  async approveQuarantined(id: string, reviewedBy?: string): Promise<boolean> {
     if (!this.quarantineStore) {
       throw new Error('Skill not initialized');
     }
@@ -431,13 +563,27 @@ export class MemfwSkill {
     const memory = this.getQuarantinedById(id);
     if (!memory) return false;
 
-    return this.quarantineStore.approve(memory.id, reviewedBy);
+    if (!this.quarantineStore.approve(memory.id, reviewedBy)) {
+      return false;
+    }
+
+    const learner = this.getLearner();
+    if (learner && this.detector) {
+      const result = await learner.learnBenign(memory, reviewedBy);
+      if (result.learned) {
+        const { text, description } = result.exemplar!;
+        await this.detector.addBenignExemplars([{ text, description, source: 'learned' }]);
+      }
+    }
+
+    return true;
   }
 
   /**
    * Reject a quarantined memory
+   * When learning is enabled, the rejected text becomes a Layer 2 exemplar.
    */
-  rejectQuarantined(id: string, reviewedBy?: string): boolean {
+  async rejectQuarantined(id: string, reviewedBy?: string): Promise<boolean> {
     if (!this.quarantineStore) {
       throw new Error('Skill not initialized');
     }
@@ -445,7 +591,43 @@ export class MemfwSkill {
     const memory = this.getQuarantinedById(id);
     if (!memory) return false;
 
-    return this.quarantineStore.reject(memory.id, reviewedBy);
+    if (!this.quarantineStore.reject(memory.id, reviewedBy)) {
+      return false;
+    }
+
+    const learner = this.getLearner();
+    if (learner && this.detector) {
+      const result = await learner.learn(memory, reviewedBy);
+      if (result.learned) {
+        const { text, category, description } = result.exemplar!;
+        await this.detector.addExemplars([{ text, category, description, source: 'learned' }]);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Get the exemplar learner (null unless learning is enabled)
+   */
+  private getLearner(): ExemplarLearner | null {
+    const learning = this.config?.learning;
+    if (!learning?.enabled || !this.learnedStore || !this.detector) {
+      return null;
+    }
+
+    if (!this.learner) {
+      this.learner = new ExemplarLearner({
+        store: this.learnedStore,
+        embeddingClient: this.detector.getEmbeddingClient(),
+        exemplars: this.detector.getExemplars(),
+        benignExemplars: this.detector.getBenignExemplars(),
+        dedupThreshold: learning.dedupThreshold,
+        includeReasoning: learning.includeReasoning,
+      });
+    }
+
+    return this.learner;
   }
 
   /**
@@ -503,6 +685,27 @@ export class MemfwSkill {
         this.config.detection.enableLayer3 = value === true || value === 'true';
       } else if (parts[1] === 'useAgentJudge') {
         this.config.detection.useAgentJudge = value === true || value === 'true';
+      } else if (parts[1] === 'layer3Model') {
+        if (typeof value !== 'string' || value === '') return false;
+        this.config.detection.layer3Model = value;
+      } else if (parts[1] === 'layer3Provider') {
+        if (['openai', 'openai-compatible', 'anthropic'].includes(value as string)) {
+          this.config.detection.layer3Provider = value as LLMProviderType;
+        } else {
+          return false;
+        }
+      } else if (parts[1] === 'embeddingProvider') {
+        if (['local', 'openai', 'openai-compatible'].includes(value as string)) {
+          this.config.detection.embeddingProvider = value as EmbeddingProviderType;
+        } else {
+          return false;
+        }
+      } else {
+        return false;
+      }
+    } else if (parts[0] === 'learning') {
+      if (parts[1] === 'enabled') {
+        this.config.learning = { ...this.config.learning, enabled: value === true || value === 'true' };
       } else {
         return false;
       }
@@ -540,6 +743,8 @@ export class MemfwSkill {
   async cleanup(): Promise<void> {
     this.provenanceStore?.close();
     this.quarantineStore?.close();
+    this.embeddingCache?.close();
+    this.learnedStore?.close();
     this.initialized = false;
   }
 }
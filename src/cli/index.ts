@@ -8,11 +8,46 @@ import path from 'path';
 import fs from 'fs';
 import { QuarantineStore } from '../storage/quarantine.js';
 import { ProvenanceStore } from '../storage/provenance.js';
+import { EmbeddingCache, DEFAULT_EMBEDDING_CACHE_SIZE } from '../storage/embedding-cache.js';
+import { LearnedExemplarStore } from '../storage/learned-exemplars.js';
+import { AgentJudgeRequestStore } from '../storage/agent-judge-requests.js';
 import { BaselineTracker } from '../core/baseline.js';
-import { TrustLevel, QuarantineStatus } from '../core/types.js';
-import { Detector, createDetector } from '../core/detector.js';
+import { TrustLevel, QuarantineStatus, DetectionResult, DetectionSpan } from '../core/types.js';
+import type { SecretFinding } from '../core/secrets.js';
+import { DEFAULT_REPUTATION, ReputationFinding, ReputationOptions } from '../core/reputation.js';
+import { Detector, createDetector, DEFAULT_TOP_K } from '../core/detector.js';
 import { IngressTagger } from '../tagger/index.js';
-import { applyAgentJudgeResult } from '../core/agent-judge.js';
+import { loadAgentJudgeKey } from '../core/agent-judge.js';
+import { Judge, LLMJudge } from '../core/judge.js';
+import { JudgeEnsemble, VotingStrategy, VOTING_STRATEGIES } from '../core/judge-ensemble.js';
+import { createEmbeddingProvider, EmbeddingProviderType } from '../core/embedding-providers.js';
+import { createLLMProvider, LLMProvider, LLMProviderType, LLM_PROVIDER_TYPES } from '../core/llm-providers.js';
+import { EmbeddingClient, EmbeddingProvider } from '../core/embeddings.js';
+import { ExemplarLearner, DEFAULT_LEARNING_DEDUP_THRESHOLD } from '../core/exemplar-learning.js';
+import { ATTACK_EXEMPLARS, AttackExemplar, mergeExemplars } from '../core/exemplars.js';
+import { BenignExemplar, DEFAULT_BENIGN_MARGIN } from '../core/benign-exemplars.js';
+import type { ChunkingOptions } from '../core/chunking.js';
+import {
+  ExemplarPack,
+  exemplarId,
+  formatExemplarPack,
+  loadExemplarPack,
+  loadExemplarPacks,
+  saveExemplarPack,
+  validateExemplar,
+} from '../core/exemplar-packs.js';
+import {
+  PatternRule,
+  RuleLintIssue,
+  buildRuleSet,
+  lintRules,
+  loadRuleFile,
+  loadRuleFiles,
+  testRuleExamples,
+} from '../core/rules.js';
+import { layer1Triage } from '../core/patterns.js';
+import { PolicyAction, PolicyConditions, PolicyEngine, isAllowingAction, loadPolicyFile } from '../core/policy.js';
+import { DEFAULT_REDACTION, RedactionOptions, redactText } from '../core/redaction.js';
 
 // Load environment variables
 config();
@@ -40,6 +75,11 @@ function ensureDataDir(): void {
   }
 }
 
+// Key signing agent judge requests, kept with the databases so requests can be resolved later
+function loadAgentJudgeKeyFile(): string {
+  return loadAgentJudgeKey(path.join(path.dirname(getDbPath('quarantine')), 'agent-judge.key'));
+}
+
 // Helper to truncate text
 function truncate(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text;
@@ -76,6 +116,18 @@ function formatTrustLevel(trust: TrustLevel): string {
   return colors[trust](trust);
 }
 
+// Helper to format policy action
+function formatPolicyAction(action: PolicyAction): string {
+  const colors: Record<PolicyAction, (s: string) => string> = {
+    allow: chalk.green,
+    allow_with_warning: chalk.yellow,
+    quarantine: chalk.red,
+    block: chalk.red,
+    redact: chalk.magenta,
+  };
+  return colors[action](action);
+}
+
 // Create the CLI program
 const program = new Command();
 
@@ -171,6 +223,108 @@ function getTrustLevelFromSource(
   return defaultTrust;
 }
 
+// Chunking from the --chunk flag, falling back to config (undefined = scan whole text)
+function resolveChunking(flag: string | boolean | undefined, cfg: MemfwCliConfig): ChunkingOptions | undefined {
+  const mode = flag === true ? 'sentence' : flag || cfg.detection.chunking;
+  if (!mode || mode === 'off') return undefined;
+  if (mode !== 'sentence' && mode !== 'paragraph') {
+    console.error(chalk.red('Invalid chunking mode. Use: sentence, paragraph'));
+    process.exit(1);
+  }
+  return { mode };
+}
+
+// Print flagged spans with their character offsets
+function printSpans(spans: DetectionSpan[] | undefined): void {
+  const flagged = spans?.filter((span) => span.flagged) ?? [];
+  for (const span of flagged) {
+    console.log(chalk.red(`  [${span.start}-${span.end}]`) + ` ${truncate(span.text.replace(/\s+/g, ' '), 100)}`);
+  }
+}
+
+// Print secret/PII findings (previews only, never the full value)
+function printSecrets(secrets: SecretFinding[] | undefined): void {
+  for (const finding of secrets ?? []) {
+    const label = finding.type === 'secret' ? chalk.red(finding.kind) : chalk.yellow(finding.kind);
+    console.log(`  ${label} ${chalk.dim(`[${finding.start}-${finding.end}]`)} ${finding.preview}`);
+  }
+}
+
+// Print URLs/domains with a bad reputation
+function printReputation(findings: ReputationFinding[] | undefined): void {
+  for (const finding of findings ?? []) {
+    const label = finding.score >= DEFAULT_REPUTATION.flagThreshold ? chalk.red(finding.category) : chalk.yellow(finding.category);
+    console.log(`  ${label} ${chalk.dim(`[${finding.start}-${finding.end}]`)} ${truncate(finding.indicator, 100)}`);
+  }
+}
+
+// Highlight spans in text: flagged spans in red, Layer 1-only spans in yellow
+function highlightSpans(text: string, spans: DetectionSpan[]): string {
+  // 0 = none, 1 = Layer 1 only, 2 = flagged (overlapping chunks take the strongest)
+  const marks = new Uint8Array(text.length);
+  for (const span of spans) {
+    const level = span.flagged ? 2 : 1;
+    for (let i = span.start; i < span.end && i < text.length; i++) {
+      marks[i] = Math.max(marks[i], level);
+    }
+  }
+
+  let output = '';
+  let start = 0;
+  for (let i = 1; i <= text.length; i++) {
+    if (i === text.length || marks[i] !== marks[start]) {
+      const segment = text.slice(start, i);
+      output += marks[start] === 2 ? chalk.bgRed.white(segment)
+        : marks[start] === 1 ? chalk.yellow(segment)
+        : segment;
+      start = i;
+    }
+  }
+  return output;
+}
+
+// Print per-rule Layer 1 contributions (scan --explain)
+function printLayer1Breakdown(result: DetectionResult): void {
+  const { contributions, score } = result.layer1;
+  if (!contributions || contributions.length === 0) return;
+
+  console.log();
+  console.log(chalk.bold('Layer 1 rules:'), `score ${(score ?? 0).toFixed(2)}`);
+  for (const c of contributions) {
+    console.log(`  ${c.score.toFixed(2)}  ${(c.ruleId ?? c.category).padEnd(30)} ${c.severity.padEnd(8)} ${chalk.dim(truncate(c.matched, 40))}`);
+  }
+}
+
+// Print top Layer 2 matches and per-category similarity (scan --explain)
+function printLayer2Breakdown(result: DetectionResult): void {
+  const { topMatches, categorySimilarity, aggregateCategory } = result.layer2;
+  if (!topMatches || !categorySimilarity) {
+    console.log(chalk.dim('Layer 2 did not run'));
+    return;
+  }
+
+  console.log();
+  if (result.language) {
+    console.log(chalk.dim(`Detected language: ${result.language}`));
+  }
+  console.log(chalk.bold('Top Layer 2 matches:'));
+  for (const match of topMatches) {
+    console.log(`  ${(match.similarity * 100).toFixed(1).padStart(5)}%  ${match.category.padEnd(22)} ${chalk.dim(truncate(match.text, 60))}`);
+  }
+  console.log();
+  console.log(chalk.bold('By category:'));
+  const categories = Object.entries(categorySimilarity).sort((a, b) => b[1] - a[1]);
+  for (const [category, similarity] of categories) {
+    const marker = category === aggregateCategory ? chalk.yellow(' (aggregate trigger)') : '';
+    console.log(`  ${category.padEnd(22)} ${(similarity * 100).toFixed(1)}%${marker}`);
+  }
+  if (result.layer2.matchedBenignExemplar) {
+    console.log();
+    console.log(chalk.bold('Closest benign:'), `${((result.layer2.benignSimilarity ?? 0) * 100).toFixed(1)}%`,
+      chalk.dim(truncate(result.layer2.matchedBenignExemplar, 60)));
+  }
+}
+
 // ==================== SCAN COMMAND ====================
 program
   .command('scan [content]')
@@ -181,9 +335,10 @@ program
   .option('-j, --json', 'Output result as JSON')
   .option('--stdin', 'Read content from stdin')
   .option('--quarantine', 'Quarantine flagged content (default: just report)')
+  .option('--explain', 'Show Layer 1 rule contributions, top Layer 2 matches and per-category similarity')
+  .option('--chunk [mode]', 'Scan long content in chunks (sentence, paragraph)')
   .option('--fail-open', 'Allow content through on detection errors')
   .option('--fail-closed', 'Block content on detection errors (default)')
-  .option('--agent-response <text>', 'Apply agent verdict for borderline cases (format: "VERDICT: SAFE\\nCONFIDENCE: 0.9\\nREASONING: ...")')
   .action(async (content, options) => {
     // Read content from stdin if specified or if no content provided
     let textToScan = content;
@@ -219,7 +374,15 @@ program
       const cfg = loadConfig();
       const effectiveTrustLevel = getTrustLevelFromSource(options.source, cfg.trust, flagTrustLevel);
 
-      const detector = new Detector({ enableLayer2: false, enableLayer3: false });
+      let rules: PatternRule[];
+      try {
+        rules = loadRules(cfg);
+      } catch (error) {
+        console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+        process.exit(1);
+      }
+
+      const detector = new Detector({ enableLayer2: false, enableLayer3: false, rules });
       const result = detector.quickCheck(textToScan);
 
       if (options.json) {
@@ -251,7 +414,6 @@ program
     // Load config and apply settings
     const cfg = loadConfig();
     const openaiApiKey = process.env.OPENAI_API_KEY;
-    const enableLayer2 = cfg.detection.enabled && !!openaiApiKey;
 
     // Apply trust overrides from config based on source
     trustLevel = getTrustLevelFromSource(options.source, cfg.trust, flagTrustLevel);
@@ -260,137 +422,202 @@ program
     const failOpen = options.failOpen && !options.failClosed;
 
     try {
+      // Layer 2 is available whenever the configured provider can be built
+      const embeddingProvider = cfg.detection.enabled ? resolveEmbeddingProvider(cfg) : null;
+      // Persistent cache means exemplars are only embedded once across runs
+      const embeddingCache = embeddingProvider && cfg.cache.enabled
+        ? new EmbeddingCache(getDbPath('embeddings'), { maxEntries: cfg.cache.maxEntries })
+        : undefined;
+      // The external judge runs when enabled and its provider can be built
+      const judge = cfg.detection.useLlmJudge ? loadJudge(cfg) : undefined;
+      const llmProvider = cfg.detection.useLlmJudge && !judge ? resolveLLMProvider(cfg) : null;
+      const agentJudgeKey = loadAgentJudgeKeyFile();
+
       const detector = await createDetector({
         openaiApiKey,
-        enableLayer2,
-        enableLayer3: cfg.detection.useLlmJudge && !!openaiApiKey,
+        embeddingProvider: embeddingProvider ?? undefined,
+        embeddingCache,
+        enableLayer2: embeddingProvider !== null,
+        enableLayer3: llmProvider !== null || judge !== undefined,
         useAgentJudge: cfg.detection.useAgentJudge,
+        judgeInput: cfg.detection.judgeInput,
+        agentJudgeKey,
+        llmProvider: llmProvider ?? undefined,
+        judge,
         similarityThreshold: sensitivityToThreshold(cfg.detection.sensitivity),
+        exemplars: mergeExemplars(loadPackExemplars(cfg), loadLearnedExemplars()),
+        benignExemplars: loadLearnedBenignExemplars(),
+        benignMargin: cfg.detection.benignMargin,
+        topK: cfg.detection.topK,
+        categoryAggregation: cfg.detection.aggregateCategories ? {} : undefined,
+        chunking: resolveChunking(options.chunk, cfg),
+        normalization: cfg.detection.normalize === false ? false : undefined,
+        hiddenContent: cfg.detection.hiddenContent ?? true,
+        secrets: cfg.detection.secrets === false ? false : undefined,
+        reputation: cfg.detection.reputation === false ? false : cfg.reputation,
+        rules: loadRules(cfg),
       });
 
+      const policy = loadPolicy(cfg);
       const provenanceStore = new ProvenanceStore(getDbPath('provenance'));
       const quarantineStore = new QuarantineStore(getDbPath('quarantine'));
+      const agentJudgeStore = options.quarantine ? new AgentJudgeRequestStore(getDbPath('agent-judge')) : null;
 
       try {
         if (options.quarantine) {
-          // Full scan with quarantine support
+          // Full scan with quarantine support; borderline content is held for `memfw judge respond`
           const tagger = new IngressTagger({
             detector,
             provenanceStore,
             quarantineStore,
+            policy,
+            redaction: cfg.redaction,
+            agentJudgeStore: agentJudgeStore ?? undefined,
+            agentJudgeKey,
           });
 
-          let result = await tagger.tag({
+          const result = await tagger.tag({
             text: textToScan,
             source: options.source,
             trustLevel,
           });
 
-          // Check if agent evaluation was requested (borderline case)
-          const needsAgentEval = result.needsAgentEvaluation;
-
-          // Apply agent response if provided
-          if (options.agentResponse && result.detection.agentJudgeRequest) {
-            const updatedDetection = applyAgentJudgeResult(result.detection, options.agentResponse);
-            result = {
-              ...result,
-              allowed: updatedDetection.passed,
-              detection: updatedDetection,
-            };
-
-            // Update quarantine record based on agent verdict
-            if (result.quarantineId && updatedDetection.layer3?.verdict) {
-              if (updatedDetection.layer3.verdict === 'SAFE') {
-                quarantineStore.approve(result.quarantineId, 'agent-judge');
-              } else {
-                quarantineStore.reject(result.quarantineId, 'agent-judge');
-              }
-            }
-          }
+          // A redaction allows only the sanitized text, not the scanned content
+          const allowedAsIs = result.allowed && !result.redaction;
 
           if (options.json) {
             console.log(JSON.stringify({
-              allowed: result.allowed,
+              allowed: allowedAsIs,
               score: result.detection.score,
               quarantineId: result.quarantineId,
+              action: result.decision.action,
+              policyRule: result.decision.ruleId,
+              redactedText: result.redaction?.text,
               reason: result.detection.reason,
+              secrets: result.detection.secrets,
+              reputation: result.detection.reputation,
               layer1: result.detection.layer1,
               layer2: result.detection.layer2,
               layer3: result.detection.layer3,
-              needsAgentEvaluation: needsAgentEval && !options.agentResponse,
+              needsAgentEvaluation: result.needsAgentEvaluation,
               agentJudgePrompt: result.detection.agentJudgeRequest?.evaluationPrompt,
+              agentJudgeRequestId: result.agentJudgeRequestId,
               source: options.source,
               trustLevel,
             }));
-            process.exit(result.allowed ? 0 : 1);
+            process.exit(allowedAsIs ? 0 : 1);
           }
 
-          if (result.allowed) {
+          if (result.redaction) {
+            console.log(chalk.yellow('✂ REDACTED') + chalk.dim(` (score: ${result.detection.score.toFixed(2)}, ${result.redaction.fragments.length} fragment(s) removed)`));
+            console.log(chalk.dim(`Reason: ${result.detection.reason}`));
+            printSecrets(result.detection.secrets);
+            printReputation(result.detection.reputation);
+            console.log(chalk.yellow(`Fragments quarantined: ${result.quarantineId!.substring(0, 8)}`));
+            console.log(chalk.bold('Store this text instead:'));
+            console.log(result.redaction.text);
+          } else if (result.agentJudgeRequestId) {
+            // Held until the agent's verdict decides whether it is stored or quarantined
+            console.log(chalk.yellow('⚠ PENDING') + chalk.dim(` (score: ${result.detection.score.toFixed(2)})`));
+            console.log(chalk.dim(`Reason: ${result.detection.reason}`));
+            console.log(chalk.dim(`Agent judge request: ${result.agentJudgeRequestId}`));
+            console.log(chalk.dim('Use "memfw judge respond <id> <response>" to apply agent verdict'));
+          } else if (result.allowed) {
             if (result.detection.layer3?.evaluated) {
               console.log(chalk.green('✓ PASS') + chalk.dim(` (score: ${result.detection.score.toFixed(2)}, L3: ${result.detection.layer3.verdict})`));
-            } else if (needsAgentEval) {
-              console.log(chalk.yellow('⚠ BORDERLINE') + chalk.dim(` (score: ${result.detection.score.toFixed(2)})`));
-              console.log(chalk.dim('Use --agent-response to apply agent verdict'));
             } else {
               console.log(chalk.green('✓ PASS') + chalk.dim(` (score: ${result.detection.score.toFixed(2)})`));
             }
+            if (result.warning) {
+              console.log(chalk.yellow(`Warning (policy ${result.decision.ruleId}): ${result.warning}`));
+            }
           } else {
             console.log(chalk.red('✗ BLOCKED') + chalk.dim(` (score: ${result.detection.score.toFixed(2)})`));
             console.log(chalk.dim(`Reason: ${result.detection.reason}`));
+            printSpans(result.detection.spans);
+            printSecrets(result.detection.secrets);
+            printReputation(result.detection.reputation);
             if (result.quarantineId) {
               console.log(chalk.yellow(`Quarantined: ${result.quarantineId.substring(0, 8)}`));
+            } else if (result.decision.action === 'block') {
+              console.log(chalk.yellow(`Dropped by policy ${result.decision.ruleId}`));
             }
           }
-          process.exit(result.allowed ? 0 : 1);
+          if (options.explain) {
+            printLayer1Breakdown(result.detection);
+            printLayer2Breakdown(result.detection);
+          }
+          process.exit(allowedAsIs ? 0 : 1);
         } else {
           // Detection only (no quarantine)
-          let result = await detector.detect(textToScan, trustLevel, options.source);
+          const result = await detector.detect(textToScan, trustLevel, options.source);
 
           // Check if agent evaluation was requested (borderline case)
           const needsAgentEval = !!result.agentJudgeRequest;
 
-          // Apply agent response if provided
-          if (options.agentResponse && result.agentJudgeRequest) {
-            result = applyAgentJudgeResult(result, options.agentResponse);
-          }
+          const decision = policy.evaluate({ detection: result, source: options.source, trustLevel });
+          const allowed = isAllowingAction(decision.action);
+          const redacted = decision.action === 'redact' ? redactText(textToScan, result, cfg.redaction) : undefined;
+          // An incomplete redaction would still carry flagged content
+          const redaction = redacted?.complete ? redacted : undefined;
 
           if (options.json) {
             console.log(JSON.stringify({
-              allowed: result.passed,
+              allowed,
               score: result.score,
+              action: decision.action,
+              policyRule: decision.ruleId,
+              redactedText: redaction?.fragments.length ? redaction.text : undefined,
               reason: result.reason,
+              secrets: result.secrets,
+              reputation: result.reputation,
               layer1: result.layer1,
               layer2: result.layer2,
               layer3: result.layer3,
-              needsAgentEvaluation: needsAgentEval && !options.agentResponse,
+              needsAgentEvaluation: needsAgentEval,
               agentJudgePrompt: result.agentJudgeRequest?.evaluationPrompt,
               source: options.source,
               trustLevel,
             }));
-            process.exit(result.passed ? 0 : 1);
+            process.exit(allowed ? 0 : 1);
           }
 
-          if (result.passed) {
+          if (allowed) {
             if (result.layer3?.evaluated) {
-              // Agent evaluation was applied
               console.log(chalk.green('✓ PASS') + chalk.dim(` (score: ${result.score.toFixed(2)}, L3: ${result.layer3.verdict})`));
             } else if (needsAgentEval) {
               // Borderline case - passed L2 but L1 triggered, would benefit from agent evaluation
               console.log(chalk.yellow('⚠ BORDERLINE') + chalk.dim(` (score: ${result.score.toFixed(2)})`));
               console.log(chalk.dim('Layer 1 flagged but Layer 2 did not confirm'));
-              console.log(chalk.dim('Use --agent-response to apply agent verdict'));
+              console.log(chalk.dim('Use --quarantine to hold it for "memfw judge respond"'));
             } else {
               console.log(chalk.green('✓ PASS') + chalk.dim(` (score: ${result.score.toFixed(2)})`));
             }
+            if (decision.action === 'allow_with_warning') {
+              console.log(chalk.yellow(`Warning (policy ${decision.ruleId}): ${decision.reason}`));
+            }
           } else {
-            console.log(chalk.red('✗ BLOCKED') + chalk.dim(` (score: ${result.score.toFixed(2)})`));
-            console.log(chalk.dim(`Reason: ${result.reason}`));
+            console.log(chalk.red('✗ BLOCKED') + chalk.dim(` (score: ${result.score.toFixed(2)}, action: ${decision.action})`));
+            console.log(chalk.dim(`Reason: ${result.passed ? decision.reason : result.reason}`));
+            printSpans(result.spans);
+            printSecrets(result.secrets);
+            printReputation(result.reputation);
+            if (redaction?.fragments.length) {
+              console.log(chalk.bold('Redacted text:'));
+              console.log(redaction.text);
+            }
+          }
+          if (options.explain) {
+            printLayer1Breakdown(result);
+            printLayer2Breakdown(result);
           }
-          process.exit(result.passed ? 0 : 1);
+          process.exit(allowed ? 0 : 1);
         }
       } finally {
         provenanceStore.close();
         quarantineStore.close();
+        agentJudgeStore?.close();
+        embeddingCache?.close();
       }
     } catch (error) {
       // Default: fail-closed (block on error)
@@ -535,9 +762,37 @@ quarantine
       }
       console.log();
 
+      if (memory.redaction) {
+        console.log(chalk.bold('Redacted Fragments:'), chalk.dim(`(provenance ${memory.redaction.provenanceId.substring(0, 8)})`));
+        for (const fragment of memory.redaction.fragments) {
+          console.log(`  [${fragment.start}-${fragment.end}] ${fragment.reasons.join(', ')}`);
+        }
+        console.log();
+        console.log(chalk.bold('Original Content:'));
+        console.log(chalk.dim('─'.repeat(50)));
+        console.log(highlightSpans(memory.redaction.originalText, memory.redaction.fragments.map((f) => ({
+          ...f,
+          layer1Patterns: [],
+          layer2Similarity: 0,
+          flagged: true,
+        }))));
+        console.log(chalk.dim('─'.repeat(50)));
+        console.log();
+        return;
+      }
+
+      if (memory.spans && memory.spans.length > 0) {
+        console.log(chalk.bold('Flagged Spans:'));
+        for (const span of memory.spans.filter((s) => s.flagged)) {
+          const similarity = `${(span.layer2Similarity * 100).toFixed(1)}%`;
+          console.log(`  [${span.start}-${span.end}] ${span.category ?? 'unknown'} ${chalk.yellow(similarity)}`);
+        }
+        console.log();
+      }
+
       console.log(chalk.bold('Content:'));
       console.log(chalk.dim('─'.repeat(50)));
-      console.log(memory.text);
+      console.log(memory.spans?.length ? highlightSpans(memory.text, memory.spans) : memory.text);
       console.log(chalk.dim('─'.repeat(50)));
       console.log();
     } finally {
@@ -549,14 +804,24 @@ quarantine
   .command('approve <ids...>')
   .description('Approve quarantined memories')
   .option('-u, --user <name>', 'Reviewer name')
-  .action((ids, options) => {
+  .option('--learn', 'Learn benign exemplars from approved items (even if learning is disabled in config)')
+  .action(async (ids, options) => {
     ensureDataDir();
+    const cfg = loadConfig();
     const store = new QuarantineStore(getDbPath('quarantine'));
+    const learn = options.learn || cfg.learning.enabled;
+    const learnedStore = learn ? new LearnedExemplarStore(getDbPath('learned')) : null;
+    const embeddingCache = learn && cfg.cache.enabled
+      ? new EmbeddingCache(getDbPath('embeddings'), { maxEntries: cfg.cache.maxEntries })
+      : undefined;
 
     try {
       const memories = store.list();
       let approved = 0;
       let notFound = 0;
+      let learned = 0;
+
+      const learner = learnedStore ? createExemplarLearner(cfg, learnedStore, embeddingCache) : null;
 
       for (const id of ids) {
         const memory = memories.find((m) => m.id.startsWith(id));
@@ -564,6 +829,17 @@ quarantine
           if (store.approve(memory.id, options.user)) {
             console.log(chalk.green(`✓ Approved: ${memory.id.substring(0, 8)}`));
             approved++;
+
+            if (learner) {
+              const result = await learner.learnBenign(memory, options.user);
+              if (result.learned) {
+                console.log(chalk.cyan(`  Learned benign exemplar ${result.exemplar!.id.substring(0, 8)}`));
+                learned++;
+              } else {
+                const similarity = ((result.similarity ?? 1) * 100).toFixed(1);
+                console.log(chalk.dim(`  Not learned: ${similarity}% similar to "${truncate(result.duplicateOf ?? '', 50)}"`));
+              }
+            }
           }
         } else {
           console.log(chalk.red(`✗ Not found: ${id}`));
@@ -572,9 +848,11 @@ quarantine
       }
 
       console.log();
-      console.log(`Approved: ${approved}, Not found: ${notFound}`);
+      console.log(`Approved: ${approved}, Not found: ${notFound}` + (learner ? `, Learned: ${learned}` : ''));
     } finally {
       store.close();
+      learnedStore?.close();
+      embeddingCache?.close();
     }
   });
 
@@ -582,14 +860,24 @@ quarantine
   .command('reject <ids...>')
   .description('Reject quarantined memories')
   .option('-u, --user <name>', 'Reviewer name')
-  .action((ids, options) => {
+  .option('--learn', 'Learn exemplars from rejected items (even if learning is disabled in config)')
+  .action(async (ids, options) => {
     ensureDataDir();
+    const cfg = loadConfig();
     const store = new QuarantineStore(getDbPath('quarantine'));
+    const learn = options.learn || cfg.learning.enabled;
+    const learnedStore = learn ? new LearnedExemplarStore(getDbPath('learned')) : null;
+    const embeddingCache = learn && cfg.cache.enabled
+      ? new EmbeddingCache(getDbPath('embeddings'), { maxEntries: cfg.cache.maxEntries })
+      : undefined;
 
     try {
       const memories = store.list();
       let rejected = 0;
       let notFound = 0;
+      let learned = 0;
+
+      const learner = learnedStore ? createExemplarLearner(cfg, learnedStore, embeddingCache) : null;
 
       for (const id of ids) {
         const memory = memories.find((m) => m.id.startsWith(id));
@@ -597,6 +885,17 @@ quarantine
           if (store.reject(memory.id, options.user)) {
             console.log(chalk.green(`✓ Rejected: ${memory.id.substring(0, 8)}`));
             rejected++;
+
+            if (learner) {
+              const result = await learner.learn(memory, options.user);
+              if (result.learned) {
+                console.log(chalk.cyan(`  Learned exemplar ${result.exemplar!.id.substring(0, 8)} (${result.exemplar!.category})`));
+                learned++;
+              } else {
+                const similarity = ((result.similarity ?? 1) * 100).toFixed(1);
+                console.log(chalk.dim(`  Not learned: ${similarity}% similar to "${truncate(result.duplicateOf ?? '', 50)}"`));
+              }
+            }
           }
         } else {
           console.log(chalk.red(`✗ Not found: ${id}`));
@@ -605,9 +904,134 @@ quarantine
       }
 
       console.log();
-      console.log(`Rejected: ${rejected}, Not found: ${notFound}`);
+      console.log(`Rejected: ${rejected}, Not found: ${notFound}` + (learner ? `, Learned: ${learned}` : ''));
     } finally {
       store.close();
+      learnedStore?.close();
+      embeddingCache?.close();
+    }
+  });
+
+// ==================== AGENT JUDGE COMMANDS ====================
+const judge = program
+  .command('judge')
+  .description('Answer agent judge requests held by `memfw scan --quarantine`');
+
+judge
+  .command('pending')
+  .description('List agent judge requests awaiting a verdict')
+  .option('-l, --limit <number>', 'Limit results', '20')
+  .option('--json', 'Output as JSON (includes the evaluation prompts)')
+  .action((options) => {
+    ensureDataDir();
+    const store = new AgentJudgeRequestStore(getDbPath('agent-judge'));
+
+    try {
+      const requests = store.list({ limit: parseInt(options.limit, 10) });
+
+      if (options.json) {
+        console.log(JSON.stringify(requests.map((request) => ({
+          id: request.id,
+          source: request.source,
+          trustLevel: request.trustLevel,
+          createdAt: request.createdAt.toISOString(),
+          expiresAt: request.expiresAt.toISOString(),
+          agentJudgePrompt: request.detection.agentJudgeRequest?.evaluationPrompt,
+        }))));
+        return;
+      }
+
+      if (requests.length === 0) {
+        console.log(chalk.dim('\nNo pending agent judge requests.\n'));
+        return;
+      }
+
+      const table = new Table({
+        head: [chalk.bold('ID'), chalk.bold('Source'), chalk.bold('Content'), chalk.bold('Expires')],
+        colWidths: [10, 15, 40, 20],
+        wordWrap: true,
+      });
+
+      for (const request of requests) {
+        table.push([
+          request.id.substring(0, 8),
+          request.source,
+          truncate(request.text, 37),
+          formatDate(request.expiresAt),
+        ]);
+      }
+
+      console.log();
+      console.log(table.toString());
+      console.log();
+    } finally {
+      store.close();
+    }
+  });
+
+judge
+  .command('respond <id> <response>')
+  .description('Apply the agent\'s verdict (JSON object or VERDICT: lines) to a pending request')
+  .option('--json', 'Output as JSON')
+  .action((id, response, options) => {
+    ensureDataDir();
+    const cfg = loadConfig();
+    const agentJudgeStore = new AgentJudgeRequestStore(getDbPath('agent-judge'));
+    const provenanceStore = new ProvenanceStore(getDbPath('provenance'));
+    const quarantineStore = new QuarantineStore(getDbPath('quarantine'));
+
+    try {
+      // Support partial ID matching
+      const request = agentJudgeStore.list().find((r) => r.id.startsWith(id));
+      const tagger = new IngressTagger({
+        // Resolving only re-applies the policy; nothing is detected again
+        detector: new Detector({ enableLayer2: false }),
+        provenanceStore,
+        quarantineStore,
+        policy: loadPolicy(cfg),
+        agentJudgeStore,
+        agentJudgeKey: loadAgentJudgeKeyFile(),
+      });
+      const resolution = tagger.resolveAgentJudgeRequest(request?.id ?? id, response);
+
+      if (options.json) {
+        console.log(JSON.stringify({
+          id: resolution.requestId,
+          allowed: resolution.allowed,
+          outcome: resolution.outcome,
+          action: resolution.decision.action,
+          policyRule: resolution.decision.ruleId,
+          quarantineId: resolution.quarantineId,
+          score: resolution.detection.score,
+          reason: resolution.detection.reason,
+          layer3: resolution.detection.layer3,
+        }));
+        process.exit(resolution.allowed ? 0 : 1);
+      }
+
+      const verdict = resolution.detection.layer3?.verdict;
+      if (resolution.allowed) {
+        console.log(chalk.green('✓ PASS') + chalk.dim(` (score: ${resolution.detection.score.toFixed(2)}, L3: ${verdict})`));
+        console.log(chalk.dim('Content may be stored'));
+      } else {
+        console.log(chalk.red('✗ BLOCKED') + chalk.dim(` (score: ${resolution.detection.score.toFixed(2)}, action: ${resolution.decision.action})`));
+        console.log(chalk.dim(`Reason: ${resolution.detection.reason}`));
+        if (resolution.quarantineId) {
+          console.log(chalk.yellow(`Quarantined: ${resolution.quarantineId.substring(0, 8)}`));
+        }
+      }
+      process.exit(resolution.allowed ? 0 : 1);
+    } catch (error) {
+      if (options.json) {
+        console.log(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+      } else {
+        console.log(chalk.red(`\n${error instanceof Error ? error.message : error}\n`));
+      }
+      process.exit(1);
+    } finally {
+      agentJudgeStore.close();
+      provenanceStore.close();
+      quarantineStore.close();
     }
   });
 
@@ -651,9 +1075,10 @@ program
           chalk.bold('Source'),
           chalk.bold('Trust'),
           chalk.bold('Score'),
+          chalk.bold('Action'),
           chalk.bold('Flags'),
         ],
-        colWidths: [10, 21, 18, 16, 7, 20],
+        colWidths: [10, 21, 18, 16, 7, 20, 20],
       });
 
       for (const entry of entries) {
@@ -668,6 +1093,7 @@ program
           truncate(entry.source, 15),
           formatTrustLevel(entry.trustLevel),
           score,
+          entry.policyAction ? formatPolicyAction(entry.policyAction) : '-',
           truncate(flags, 17),
         ]);
       }
@@ -703,7 +1129,94 @@ interface MemfwCliConfig {
     useLlmJudge: boolean;
     useAgentJudge: boolean;
     sensitivity: 'low' | 'medium' | 'high';
+    embeddingProvider: EmbeddingProviderType;
+    /** Provider of the external Layer 3 judge (default: openai) */
+    llmProvider?: LLMProviderType;
+    /** How much closer to a benign exemplar content must be to downgrade a Layer 2 match */
+    benignMargin?: number;
+    /** Number of top Layer 2 matches reported */
+    topK?: number;
+    /** Trigger Layer 2 on several moderately similar exemplars of one category */
+    aggregateCategories?: boolean;
+    /** Scan long content in chunks */
+    chunking?: 'off' | 'sentence' | 'paragraph';
+    /** Also scan normalized/decoded variants of content (default: true) */
+    normalize?: boolean;
+    /** Scan hidden Markdown/HTML channels separately (default: true) */
+    hiddenContent?: boolean;
+    /** Scan for secrets and PII (default: true) */
+    secrets?: boolean;
+    /** Check URLs and domains against the reputation lists (default: true) */
+    reputation?: boolean;
+    /** How content is shown to the judge: datamarked or base64-encoded (default: datamark) */
+    judgeInput?: 'datamark' | 'base64';
+    /** Judge ensemble for Layer 3 (default: a single judge) */
+    judges?: Array<{
+      model: string;
+      /** Provider of this judge (default: detection.llmProvider) */
+      provider?: LLMProviderType;
+      /** Server or proxy URL (default: llm.baseURL when the provider matches) */
+      baseURL?: string;
+      /** Environment variable holding this judge's API key */
+      apiKeyEnv?: string;
+      /** Reported with the judge's vote (default: the model) */
+      name?: string;
+      /** Calibration weight for weighted voting */
+      weight?: number;
+      /** File with a system prompt replacing the built-in one */
+      promptFile?: string;
+    }>;
+    /** How ensemble votes are combined (default: majority) */
+    voting?: VotingStrategy;
+  };
+  embeddings?: {
+    model?: string;
+    baseURL?: string;
+    /** Environment variable holding the embedding API key */
+    apiKeyEnv?: string;
+    dimensions?: number;
   };
+  /** Options for the external Layer 3 judge's provider */
+  llm?: {
+    model?: string;
+    baseURL?: string;
+    /** Environment variable holding the LLM API key */
+    apiKeyEnv?: string;
+    /** Request timeout in milliseconds */
+    timeoutMs?: number;
+  };
+  cache: {
+    enabled: boolean;
+    maxEntries: number;
+  };
+  learning: {
+    /** Promote rejected quarantine items into learned exemplars */
+    enabled: boolean;
+    /** Keep Layer 3 reasoning with learned exemplars */
+    includeReasoning: boolean;
+    /** Similarity at or above which a rejected item is a duplicate */
+    dedupThreshold: number;
+  };
+  exemplars?: {
+    /** Exemplar pack files (JSON or YAML) loaded in addition to the built-in set */
+    packs?: string[];
+    /** Pack managed by `memfw exemplars add|remove|import` (default: data/exemplars.json) */
+    userPack?: string;
+  };
+  rules?: {
+    /** Layer 1 rule files (JSON or YAML) merged with the built-in rules */
+    files?: string[];
+    /** Rule ids to disable (built-in or from rule files) */
+    disabled?: string[];
+  };
+  policy?: {
+    /** Policy file (JSON or YAML) deciding allow/quarantine/block */
+    file?: string;
+  };
+  /** How the redact policy action cuts flagged regions */
+  redaction?: RedactionOptions;
+  /** Allow/deny lists for URL and domain reputation */
+  reputation?: Pick<ReputationOptions, 'allow' | 'deny' | 'builtin'>;
   trust: Record<string, TrustLevel>;
 }
 
@@ -713,6 +1226,16 @@ const DEFAULT_CONFIG: MemfwCliConfig = {
     useLlmJudge: false,
     useAgentJudge: true,
     sensitivity: 'medium',
+    embeddingProvider: 'openai',
+  },
+  cache: {
+    enabled: true,
+    maxEntries: DEFAULT_EMBEDDING_CACHE_SIZE,
+  },
+  learning: {
+    enabled: false,
+    includeReasoning: false,
+    dedupThreshold: DEFAULT_LEARNING_DEDUP_THRESHOLD,
   },
   trust: {
     moltbook: TrustLevel.EXTERNAL,
@@ -733,6 +1256,167 @@ function loadConfig(): MemfwCliConfig {
   return DEFAULT_CONFIG;
 }
 
+// Build the Layer 2 embedding provider selected in config (null if unavailable)
+function resolveEmbeddingProvider(cfg: MemfwCliConfig): EmbeddingProvider | null {
+  const provider = cfg.detection.embeddingProvider ?? 'openai';
+  // Only the OpenAI provider falls back to OPENAI_API_KEY, so the key is
+  // never sent to a self-hosted server unless explicitly configured
+  const apiKeyEnv = cfg.embeddings?.apiKeyEnv ?? (provider === 'openai' ? 'OPENAI_API_KEY' : undefined);
+
+  return createEmbeddingProvider({
+    provider,
+    model: cfg.embeddings?.model,
+    baseURL: cfg.embeddings?.baseURL,
+    apiKey: apiKeyEnv ? process.env[apiKeyEnv] : undefined,
+    dimensions: cfg.embeddings?.dimensions,
+  });
+}
+
+// Path of the pack managed by the exemplars commands
+function getUserPackPath(cfg: MemfwCliConfig): string {
+  return cfg.exemplars?.userPack ?? path.join(path.dirname(getDbPath('exemplars')), 'exemplars.json');
+}
+
+// Load exemplars from configured packs plus the user pack (if it exists)
+function loadPackExemplars(cfg: MemfwCliConfig): AttackExemplar[] {
+  const packs = (cfg.exemplars?.packs ?? []).map((p) => path.resolve(p));
+  return mergeExemplars(
+    loadExemplarPacks(packs),
+    loadExemplarPacks([getUserPackPath(cfg)], { ignoreMissing: true })
+  );
+}
+
+// Built-in Layer 1 rules merged with configured rule files and disables
+function loadRules(cfg: MemfwCliConfig): PatternRule[] {
+  return buildRuleSet({
+    rules: loadRuleFiles((cfg.rules?.files ?? []).map((f) => path.resolve(f))),
+    disabled: cfg.rules?.disabled,
+  });
+}
+
+// Build the Layer 3 judge ensemble from config (undefined for the default single judge)
+function loadJudge(cfg: MemfwCliConfig): Judge | undefined {
+  // Judges whose provider has no API key are left out
+  const members = (cfg.detection.judges ?? []).flatMap((entry) => {
+    const provider = resolveLLMProvider(cfg, entry);
+    return provider ? [{
+      name: entry.name ?? entry.model,
+      weight: entry.weight,
+      judge: new LLMJudge({
+        provider,
+        encoding: cfg.detection.judgeInput,
+        systemPrompt: entry.promptFile ? fs.readFileSync(path.resolve(entry.promptFile), 'utf-8') : undefined,
+      }),
+    }] : [];
+  });
+  if (members.length === 0) return undefined;
+
+  return new JudgeEnsemble({ judges: members, voting: cfg.detection.voting });
+}
+
+// Only hosted providers fall back to a well-known key, so it is never sent to a self-hosted server
+const DEFAULT_LLM_KEY_ENV: Record<LLMProviderType, string | undefined> = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+  'openai-compatible': undefined,
+};
+
+// Build the external judge's LLM provider from config (null when its API key is missing)
+function resolveLLMProvider(
+  cfg: MemfwCliConfig,
+  judge?: { model: string; provider?: LLMProviderType; baseURL?: string; apiKeyEnv?: string }
+): LLMProvider | null {
+  const defaultProvider = cfg.detection.llmProvider ?? 'openai';
+  const provider = judge?.provider ?? defaultProvider;
+  // A judge on another provider doesn't inherit the default provider's server or key
+  const shared = provider === defaultProvider ? cfg.llm ?? {} : {};
+  const apiKeyEnv = judge?.apiKeyEnv ?? shared.apiKeyEnv ?? DEFAULT_LLM_KEY_ENV[provider];
+
+  return createLLMProvider({
+    provider,
+    model: judge?.model ?? cfg.llm?.model,
+    baseURL: judge?.baseURL ?? shared.baseURL,
+    apiKey: apiKeyEnv ? process.env[apiKeyEnv] : undefined,
+    timeoutMs: cfg.llm?.timeoutMs,
+  });
+}
+
+// Build the policy engine from the configured policy file (built-in rules only if none)
+function loadPolicy(cfg: MemfwCliConfig): PolicyEngine {
+  return new PolicyEngine(cfg.policy?.file ? loadPolicyFile(path.resolve(cfg.policy.file)) : undefined);
+}
+
+// Load exemplars learned from rejected quarantine items (if any)
+function loadLearnedExemplars(): AttackExemplar[] {
+  return withLearnedStore((store) => store.getExemplars()) ?? [];
+}
+
+// Load benign exemplars learned from approved quarantine items (if any)
+function loadLearnedBenignExemplars(): BenignExemplar[] {
+  return withLearnedStore((store) => store.getBenignExemplars()) ?? [];
+}
+
+// Read from the learned exemplar store without creating it
+function withLearnedStore<T>(fn: (store: LearnedExemplarStore) => T): T | null {
+  const dbPath = getDbPath('learned');
+  if (!fs.existsSync(dbPath)) {
+    return null;
+  }
+  const store = new LearnedExemplarStore(dbPath);
+  try {
+    return fn(store);
+  } finally {
+    store.close();
+  }
+}
+
+// Build a learner for promoting reviewed quarantine items into exemplars
+function createExemplarLearner(
+  cfg: MemfwCliConfig,
+  store: LearnedExemplarStore,
+  embeddingCache?: EmbeddingCache
+): ExemplarLearner {
+  const embeddingProvider = resolveEmbeddingProvider(cfg);
+  if (!embeddingProvider) {
+    console.log(chalk.dim('Layer 2 unavailable: learned exemplars are only deduplicated by exact text'));
+  }
+
+  return new ExemplarLearner({
+    store,
+    embeddingClient: embeddingProvider ? new EmbeddingClient(embeddingProvider, { cache: embeddingCache }) : null,
+    exemplars: mergeExemplars(ATTACK_EXEMPLARS, loadPackExemplars(cfg)),
+    dedupThreshold: cfg.learning.dedupThreshold,
+    includeReasoning: cfg.learning.includeReasoning,
+  });
+}
+
+// Open the baseline tracker with the cached embedding client the detector uses (for topic tracking)
+function openBaselineTracker(cfg: MemfwCliConfig): { tracker: BaselineTracker; close: () => void } {
+  const embeddingProvider = cfg.detection.enabled ? resolveEmbeddingProvider(cfg) : null;
+  const embeddingCache = embeddingProvider && cfg.cache.enabled
+    ? new EmbeddingCache(getDbPath('embeddings'), { maxEntries: cfg.cache.maxEntries })
+    : undefined;
+  const embeddingClient = embeddingProvider ? new EmbeddingClient(embeddingProvider, { cache: embeddingCache }) : undefined;
+  const tracker = new BaselineTracker(getDbPath('baseline'), undefined, embeddingClient);
+
+  return {
+    tracker,
+    close: () => {
+      tracker.close();
+      embeddingCache?.close();
+    },
+  };
+}
+
+// Load the user pack, starting an empty one if the file doesn't exist
+function loadUserPack(cfg: MemfwCliConfig): ExemplarPack {
+  const packPath = getUserPackPath(cfg);
+  if (!fs.existsSync(packPath)) {
+    return { name: 'user', exemplars: [] };
+  }
+  return loadExemplarPack(packPath);
+}
+
 function saveConfig(cfg: MemfwCliConfig): void {
   fs.writeFileSync(CONFIG_FILE, JSON.stringify(cfg, null, 2));
 }
@@ -750,7 +1434,62 @@ configCmd
     console.log(`  enabled:       ${cfg.detection.enabled ? chalk.green('true') : chalk.red('false')}`);
     console.log(`  useAgentJudge: ${cfg.detection.useAgentJudge ? chalk.green('true') : chalk.red('false')}`);
     console.log(`  useLlmJudge:   ${cfg.detection.useLlmJudge ? chalk.green('true') : chalk.red('false')}`);
+    console.log(`  judgeInput:    ${cfg.detection.judgeInput ?? 'datamark'}`);
+    console.log(`  judges:        ${(cfg.detection.judges ?? []).map((j) => j.name ?? j.model).join(', ') || chalk.dim('single judge')}`);
+    console.log(`  voting:        ${cfg.detection.voting ?? 'majority'}`);
     console.log(`  sensitivity:   ${cfg.detection.sensitivity}`);
+    console.log(`  llmProvider:   ${cfg.detection.llmProvider ?? 'openai'}`);
+    console.log(`  embeddings:    ${cfg.detection.embeddingProvider ?? 'openai'}`);
+    console.log(`  benignMargin:  ${cfg.detection.benignMargin ?? DEFAULT_BENIGN_MARGIN}`);
+    console.log(`  topK:          ${cfg.detection.topK ?? DEFAULT_TOP_K}`);
+    console.log(`  aggregate:     ${cfg.detection.aggregateCategories ? chalk.green('true') : chalk.red('false')}`);
+    console.log(`  chunking:      ${cfg.detection.chunking ?? 'off'}`);
+    console.log(`  normalize:     ${cfg.detection.normalize !== false ? chalk.green('true') : chalk.red('false')}`);
+    console.log(`  hiddenContent: ${cfg.detection.hiddenContent !== false ? chalk.green('true') : chalk.red('false')}`);
+    console.log(`  secrets:       ${cfg.detection.secrets !== false ? chalk.green('true') : chalk.red('false')}`);
+    console.log(`  reputation:    ${cfg.detection.reputation !== false ? chalk.green('true') : chalk.red('false')}`);
+    console.log();
+    console.log(chalk.bold('Embedding Cache:'));
+    console.log(`  enabled:       ${cfg.cache.enabled ? chalk.green('true') : chalk.red('false')}`);
+    console.log(`  maxEntries:    ${cfg.cache.maxEntries}`);
+    console.log();
+    if (cfg.embeddings && Object.keys(cfg.embeddings).length > 0) {
+      console.log(chalk.bold('Embeddings:'));
+      for (const [key, value] of Object.entries(cfg.embeddings)) {
+        console.log(`  ${key}: ${value}`);
+      }
+      console.log();
+    }
+    if (cfg.llm && Object.keys(cfg.llm).length > 0) {
+      console.log(chalk.bold('LLM:'));
+      for (const [key, value] of Object.entries(cfg.llm)) {
+        console.log(`  ${key}: ${value}`);
+      }
+      console.log();
+    }
+    console.log(chalk.bold('Learning:'));
+    console.log(`  enabled:       ${cfg.learning.enabled ? chalk.green('true') : chalk.red('false')}`);
+    console.log(`  reasoning:     ${cfg.learning.includeReasoning ? chalk.green('true') : chalk.red('false')}`);
+    console.log(`  dedup:         ${cfg.learning.dedupThreshold}`);
+    console.log();
+    console.log(chalk.bold('Exemplar Packs:'));
+    for (const pack of cfg.exemplars?.packs ?? []) {
+      console.log(`  ${pack}`);
+    }
+    console.log(`  ${getUserPackPath(cfg)} ${chalk.dim('(user pack)')}`);
+    console.log();
+    console.log(chalk.bold('Layer 1 Rules:'));
+    console.log(`  files:         ${(cfg.rules?.files ?? []).join(', ') || chalk.dim('none')}`);
+    console.log(`  disabled:      ${(cfg.rules?.disabled ?? []).join(', ') || chalk.dim('none')}`);
+    console.log();
+    console.log(chalk.bold('Policy:'));
+    console.log(`  file:          ${cfg.policy?.file ?? chalk.dim('none (built-in rules)')}`);
+    console.log(`  redaction:     ${cfg.redaction?.mode ?? DEFAULT_REDACTION.mode}, ${cfg.redaction?.expand ?? DEFAULT_REDACTION.expand}`);
+    console.log();
+    console.log(chalk.bold('Reputation:'));
+    console.log(`  allow:         ${(cfg.reputation?.allow ?? []).join(', ') || chalk.dim('none')}`);
+    console.log(`  deny:          ${(cfg.reputation?.deny ?? []).join(', ') || chalk.dim('none')}`);
+    console.log(`  builtin:       ${(cfg.reputation?.builtin ?? DEFAULT_REPUTATION.builtin) ? chalk.green('true') : chalk.red('false')}`);
     console.log();
     console.log(chalk.bold('Trust Overrides:'));
     for (const [source, level] of Object.entries(cfg.trust)) {
@@ -784,10 +1523,188 @@ configCmd
           console.log(chalk.red('Invalid sensitivity value. Use: low, medium, high'));
           process.exit(1);
         }
+      } else if (parts[1] === 'chunking') {
+        if (['off', 'sentence', 'paragraph'].includes(value)) {
+          cfg.detection.chunking = value as 'off' | 'sentence' | 'paragraph';
+        } else {
+          console.log(chalk.red('Invalid chunking mode. Use: off, sentence, paragraph'));
+          process.exit(1);
+        }
+      } else if (parts[1] === 'aggregateCategories') {
+        cfg.detection.aggregateCategories = value === 'true';
+      } else if (parts[1] === 'normalize') {
+        cfg.detection.normalize = value === 'true';
+      } else if (parts[1] === 'hiddenContent') {
+        cfg.detection.hiddenContent = value === 'true';
+      } else if (parts[1] === 'secrets') {
+        cfg.detection.secrets = value === 'true';
+      } else if (parts[1] === 'reputation') {
+        cfg.detection.reputation = value === 'true';
+      } else if (parts[1] === 'judges') {
+        // Comma-separated models; weights and prompt files are set in the config file
+        cfg.detection.judges = value.split(',').map((m: string) => m.trim()).filter(Boolean).map((model: string) => ({ model }));
+      } else if (parts[1] === 'voting') {
+        if (VOTING_STRATEGIES.includes(value as VotingStrategy)) {
+          cfg.detection.voting = value as VotingStrategy;
+        } else {
+          console.log(chalk.red(`Invalid voting. Use: ${VOTING_STRATEGIES.join(', ')}`));
+          process.exit(1);
+        }
+      } else if (parts[1] === 'judgeInput') {
+        if (value === 'datamark' || value === 'base64') {
+          cfg.detection.judgeInput = value;
+        } else {
+          console.log(chalk.red('Invalid judgeInput. Use: datamark, base64'));
+          process.exit(1);
+        }
+      } else if (parts[1] === 'topK') {
+        const topK = parseInt(value, 10);
+        if (isNaN(topK) || topK <= 0) {
+          console.log(chalk.red('Invalid topK. Use a positive integer'));
+          process.exit(1);
+        }
+        cfg.detection.topK = topK;
+      } else if (parts[1] === 'benignMargin') {
+        const margin = parseFloat(value);
+        if (isNaN(margin) || margin < 0 || margin > 1) {
+          console.log(chalk.red('Invalid benignMargin. Use a number between 0 and 1'));
+          process.exit(1);
+        }
+        cfg.detection.benignMargin = margin;
+      } else if (parts[1] === 'llmProvider') {
+        if (LLM_PROVIDER_TYPES.includes(value as LLMProviderType)) {
+          cfg.detection.llmProvider = value as LLMProviderType;
+        } else {
+          console.log(chalk.red(`Invalid LLM provider. Use: ${LLM_PROVIDER_TYPES.join(', ')}`));
+          process.exit(1);
+        }
+      } else if (parts[1] === 'embeddingProvider') {
+        if (['openai', 'openai-compatible', 'local'].includes(value)) {
+          cfg.detection.embeddingProvider = value as EmbeddingProviderType;
+        } else {
+          console.log(chalk.red('Invalid embedding provider. Use: openai, openai-compatible, local'));
+          process.exit(1);
+        }
       } else {
         console.log(chalk.red(`Unknown detection key: ${parts[1]}`));
         process.exit(1);
       }
+    } else if (parts[0] === 'embeddings') {
+      cfg.embeddings = cfg.embeddings ?? {};
+      if (parts[1] === 'model' || parts[1] === 'baseURL' || parts[1] === 'apiKeyEnv') {
+        cfg.embeddings[parts[1] as 'model' | 'baseURL' | 'apiKeyEnv'] = value;
+      } else if (parts[1] === 'dimensions') {
+        const dimensions = parseInt(value, 10);
+        if (isNaN(dimensions) || dimensions <= 0) {
+          console.log(chalk.red('Invalid dimensions. Use a positive integer'));
+          process.exit(1);
+        }
+        cfg.embeddings.dimensions = dimensions;
+      } else {
+        console.log(chalk.red(`Unknown embeddings key: ${parts[1]}`));
+        process.exit(1);
+      }
+    } else if (parts[0] === 'llm') {
+      cfg.llm = cfg.llm ?? {};
+      if (parts[1] === 'model' || parts[1] === 'baseURL' || parts[1] === 'apiKeyEnv') {
+        cfg.llm[parts[1] as 'model' | 'baseURL' | 'apiKeyEnv'] = value;
+      } else if (parts[1] === 'timeoutMs') {
+        const timeoutMs = parseInt(value, 10);
+        if (isNaN(timeoutMs) || timeoutMs <= 0) {
+          console.log(chalk.red('Invalid timeoutMs. Use a positive integer'));
+          process.exit(1);
+        }
+        cfg.llm.timeoutMs = timeoutMs;
+      } else {
+        console.log(chalk.red(`Unknown llm key: ${parts[1]}`));
+        process.exit(1);
+      }
+    } else if (parts[0] === 'cache') {
+      if (parts[1] === 'enabled') {
+        cfg.cache.enabled = value === 'true';
+      } else if (parts[1] === 'maxEntries') {
+        const maxEntries = parseInt(value, 10);
+        if (isNaN(maxEntries) || maxEntries <= 0) {
+          console.log(chalk.red('Invalid maxEntries. Use a positive integer'));
+          process.exit(1);
+        }
+        cfg.cache.maxEntries = maxEntries;
+      } else {
+        console.log(chalk.red(`Unknown cache key: ${parts[1]}`));
+        process.exit(1);
+      }
+    } else if (parts[0] === 'learning') {
+      if (parts[1] === 'enabled') {
+        cfg.learning.enabled = value === 'true';
+      } else if (parts[1] === 'includeReasoning') {
+        cfg.learning.includeReasoning = value === 'true';
+      } else if (parts[1] === 'dedupThreshold') {
+        const threshold = parseFloat(value);
+        if (isNaN(threshold) || threshold <= 0 || threshold > 1) {
+          console.log(chalk.red('Invalid dedupThreshold. Use a number between 0 and 1'));
+          process.exit(1);
+        }
+        cfg.learning.dedupThreshold = threshold;
+      } else {
+        console.log(chalk.red(`Unknown learning key: ${parts[1]}`));
+        process.exit(1);
+      }
+    } else if (parts[0] === 'exemplars') {
+      cfg.exemplars = cfg.exemplars ?? {};
+      if (parts[1] === 'packs') {
+        // Comma-separated list of pack files
+        cfg.exemplars.packs = value.split(',').map((p: string) => p.trim()).filter(Boolean);
+      } else if (parts[1] === 'userPack') {
+        cfg.exemplars.userPack = value;
+      } else {
+        console.log(chalk.red(`Unknown exemplars key: ${parts[1]}`));
+        process.exit(1);
+      }
+    } else if (parts[0] === 'rules') {
+      cfg.rules = cfg.rules ?? {};
+      // Comma-separated lists
+      const list = value.split(',').map((p: string) => p.trim()).filter(Boolean);
+      if (parts[1] === 'files') {
+        cfg.rules.files = list;
+      } else if (parts[1] === 'disabled') {
+        cfg.rules.disabled = list;
+      } else {
+        console.log(chalk.red(`Unknown rules key: ${parts[1]}`));
+        process.exit(1);
+      }
+    } else if (parts[0] === 'policy') {
+      if (parts[1] === 'file') {
+        cfg.policy = { ...cfg.policy, file: value };
+      } else {
+        console.log(chalk.red(`Unknown policy key: ${parts[1]}`));
+        process.exit(1);
+      }
+    } else if (parts[0] === 'redaction') {
+      cfg.redaction = cfg.redaction ?? {};
+      if (parts[1] === 'mode' && (value === 'remove' || value === 'mask')) {
+        cfg.redaction.mode = value;
+      } else if (parts[1] === 'expand' && (value === 'sentence' || value === 'match')) {
+        cfg.redaction.expand = value;
+      } else if (parts[1] === 'mask') {
+        cfg.redaction.mask = value;
+      } else {
+        console.log(chalk.red(`Invalid redaction setting. Use: redaction.mode remove|mask, redaction.expand sentence|match, redaction.mask <text>`));
+        process.exit(1);
+      }
+    } else if (parts[0] === 'reputation') {
+      cfg.reputation = cfg.reputation ?? {};
+      // Comma-separated lists
+      const list = value.split(',').map((p: string) => p.trim()).filter(Boolean);
+      if (parts[1] === 'allow') {
+        cfg.reputation.allow = list;
+      } else if (parts[1] === 'deny') {
+        cfg.reputation.deny = list;
+      } else if (parts[1] === 'builtin') {
+        cfg.reputation.builtin = value === 'true';
+      } else {
+        console.log(chalk.red(`Unknown reputation key: ${parts[1]}`));
+        process.exit(1);
+      }
     } else if (parts[0] === 'trust') {
       if (Object.values(TrustLevel).includes(value as TrustLevel)) {
         cfg.trust[parts[1]] = value as TrustLevel;
@@ -797,7 +1714,7 @@ configCmd
       }
     } else {
       console.log(chalk.red(`Unknown config key: ${key}`));
-      console.log(chalk.dim('Valid keys: detection.enabled, detection.useLlmJudge, detection.sensitivity, trust.<source>'));
+      console.log(chalk.dim('Valid keys: detection.enabled, detection.useLlmJudge, detection.judgeInput, detection.judges, detection.voting, detection.sensitivity, detection.llmProvider, detection.embeddingProvider, detection.benignMargin, detection.topK, detection.aggregateCategories, detection.chunking, detection.normalize, detection.hiddenContent, detection.secrets, detection.reputation, embeddings.<model|baseURL|apiKeyEnv|dimensions>, llm.<model|baseURL|apiKeyEnv|timeoutMs>, cache.enabled, cache.maxEntries, learning.<enabled|includeReasoning|dedupThreshold>, exemplars.packs, exemplars.userPack, rules.files, rules.disabled, policy.file, redaction.<mode|expand|mask>, reputation.<allow|deny|builtin>, trust.<source>'));
       process.exit(1);
     }
 
@@ -815,7 +1732,7 @@ baseline
   .description('Show baseline learning status and statistics')
   .action(() => {
     ensureDataDir();
-    const tracker = new BaselineTracker(getDbPath('baseline'));
+    const { tracker, close } = openBaselineTracker(loadConfig());
 
     try {
       const stats = tracker.getStats();
@@ -861,7 +1778,7 @@ baseline
         console.log();
       }
     } finally {
-      tracker.close();
+      close();
     }
   });
 
@@ -870,13 +1787,533 @@ baseline
   .description('Reset baseline and start fresh learning period')
   .action(() => {
     ensureDataDir();
-    const tracker = new BaselineTracker(getDbPath('baseline'));
+    const { tracker, close } = openBaselineTracker(loadConfig());
 
     try {
       tracker.reset();
       console.log(chalk.green('✓ Baseline reset. Learning period restarted.'));
     } finally {
-      tracker.close();
+      close();
+    }
+  });
+
+// ==================== CACHE COMMANDS ====================
+const cacheCmd = program
+  .command('cache')
+  .description('Manage the persistent embedding cache');
+
+cacheCmd
+  .command('stats')
+  .description('Show embedding cache statistics')
+  .action(() => {
+    ensureDataDir();
+    const cfg = loadConfig();
+    const cache = new EmbeddingCache(getDbPath('embeddings'), { maxEntries: cfg.cache.maxEntries });
+
+    try {
+      const stats = cache.getStats();
+
+      console.log();
+      console.log(chalk.bold('Embedding Cache'));
+      console.log(chalk.dim('─'.repeat(40)));
+      console.log();
+      console.log(`  Entries:  ${chalk.cyan(stats.entries)} / ${stats.maxEntries}`);
+      console.log(`  Size:     ${(stats.sizeBytes / 1024).toFixed(1)} KB`);
+      console.log(`  Enabled:  ${cfg.cache.enabled ? chalk.green('true') : chalk.red('false')}`);
+      console.log();
+
+      if (stats.byModel.length > 0) {
+        console.log(chalk.bold('By Model:'));
+        for (const entry of stats.byModel) {
+          const dims = entry.dimensions > 0 ? ` (${entry.dimensions}d)` : '';
+          console.log(`  ${entry.provider}/${entry.model}${dims}: ${entry.entries}`);
+        }
+        console.log();
+      }
+    } finally {
+      cache.close();
+    }
+  });
+
+cacheCmd
+  .command('clear')
+  .description('Remove cached embeddings')
+  .option('-p, --provider <name>', 'Only clear entries from this provider')
+  .option('-m, --model <model>', 'Only clear entries for this model')
+  .action((options) => {
+    ensureDataDir();
+    const cache = new EmbeddingCache(getDbPath('embeddings'));
+
+    try {
+      const removed = cache.clear({ provider: options.provider, model: options.model });
+      console.log(chalk.green(`✓ Cleared ${removed} cached embeddings`));
+    } finally {
+      cache.close();
+    }
+  });
+
+// ==================== EXEMPLARS COMMANDS ====================
+const exemplarsCmd = program
+  .command('exemplars')
+  .description('Manage Layer 2 attack exemplars');
+
+exemplarsCmd
+  .command('list')
+  .description('List attack exemplars (built-in and packs)')
+  .option('-c, --category <category>', 'Filter by category')
+  .option('-s, --source <source>', 'Filter by source (builtin or pack name)')
+  .action((options) => {
+    const cfg = loadConfig();
+    const builtin = ATTACK_EXEMPLARS.map((e) => ({ ...e, source: e.source ?? 'builtin' }));
+    let exemplars = mergeExemplars(mergeExemplars(builtin, loadPackExemplars(cfg)), loadLearnedExemplars());
+
+    if (options.category) {
+      exemplars = exemplars.filter((e) => e.category === options.category);
+    }
+    if (options.source) {
+      exemplars = exemplars.filter((e) => e.source === options.source);
+    }
+
+    if (exemplars.length === 0) {
+      console.log(chalk.dim('No exemplars found'));
+      return;
+    }
+
+    const table = new Table({
+      head: ['ID', 'Source', 'Category', 'Threshold', 'Text'],
+      colWidths: [10, 14, 22, 11, 60],
+      wordWrap: true,
+    });
+
+    for (const exemplar of exemplars) {
+      table.push([
+        exemplarId(exemplar),
+        exemplar.source ?? 'builtin',
+        exemplar.category,
+        exemplar.threshold !== undefined ? exemplar.threshold.toFixed(2) : chalk.dim('trust'),
+        truncate(exemplar.text, 110),
+      ]);
+    }
+
+    console.log(table.toString());
+    console.log(chalk.dim(`Total: ${exemplars.length} exemplars`));
+  });
+
+exemplarsCmd
+  .command('add <text>')
+  .description('Add an exemplar to the user pack')
+  .requiredOption('-c, --category <category>', 'Attack category (e.g., instruction_override)')
+  .option('-d, --description <description>', 'Brief description', '')
+  .option('-t, --threshold <threshold>', 'Similarity threshold for this exemplar (0-1)')
+  .action((text, options) => {
+    const cfg = loadConfig();
+    const pack = loadUserPack(cfg);
+
+    let exemplar: AttackExemplar;
+    try {
+      exemplar = validateExemplar({
+        text,
+        category: options.category,
+        description: options.description,
+        threshold: options.threshold !== undefined ? parseFloat(options.threshold) : undefined,
+      }, pack.name);
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+
+    if ([...ATTACK_EXEMPLARS, ...pack.exemplars].some((e) => e.text === exemplar.text)) {
+      console.log(chalk.yellow('Exemplar already exists'));
+      return;
+    }
+
+    pack.exemplars.push(exemplar);
+    saveExemplarPack(getUserPackPath(cfg), pack);
+    console.log(chalk.green(`✓ Added exemplar ${exemplarId(exemplar)} to ${getUserPackPath(cfg)}`));
+  });
+
+exemplarsCmd
+  .command('remove <ids...>')
+  .description('Remove exemplars from the user pack')
+  .action((ids: string[]) => {
+    const cfg = loadConfig();
+    const pack = loadUserPack(cfg);
+
+    for (const id of ids) {
+      const index = pack.exemplars.findIndex((e) => exemplarId(e) === id);
+      if (index === -1) {
+        const builtin = ATTACK_EXEMPLARS.some((e) => exemplarId(e) === id);
+        console.log(chalk.red(builtin
+          ? `✗ ${id}: built-in exemplars cannot be removed`
+          : `✗ ${id}: not found in user pack`));
+        continue;
+      }
+      pack.exemplars.splice(index, 1);
+      console.log(chalk.green(`✓ Removed ${id}`));
+    }
+
+    saveExemplarPack(getUserPackPath(cfg), pack);
+  });
+
+exemplarsCmd
+  .command('import <file>')
+  .description('Import exemplars from a JSON or YAML pack into the user pack')
+  .action((file) => {
+    const cfg = loadConfig();
+    const pack = loadUserPack(cfg);
+
+    let imported: ExemplarPack;
+    try {
+      imported = loadExemplarPack(file);
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+
+    const before = pack.exemplars.length;
+    const existing = new Set(ATTACK_EXEMPLARS.map((e) => e.text));
+    pack.exemplars = mergeExemplars(
+      pack.exemplars,
+      imported.exemplars.filter((e) => !existing.has(e.text))
+    );
+    const added = pack.exemplars.length - before;
+
+    saveExemplarPack(getUserPackPath(cfg), pack);
+    console.log(chalk.green(`✓ Imported ${added} exemplars from ${imported.name}`));
+    if (added < imported.exemplars.length) {
+      console.log(chalk.dim(`  Skipped ${imported.exemplars.length - added} duplicates`));
+    }
+  });
+
+exemplarsCmd
+  .command('export [file]')
+  .description('Export exemplars as a JSON or YAML pack (stdout if no file)')
+  .option('--user-only', 'Only export the user pack')
+  .option('-f, --format <format>', 'Output format when writing to stdout (json, yaml)', 'json')
+  .action((file, options) => {
+    const cfg = loadConfig();
+    const pack: ExemplarPack = options.userOnly
+      ? loadUserPack(cfg)
+      : { name: 'memfw-exemplars', exemplars: mergeExemplars(ATTACK_EXEMPLARS, loadPackExemplars(cfg)) };
+
+    if (!file) {
+      process.stdout.write(formatExemplarPack(pack, options.format === 'yaml' ? 'yaml' : 'json'));
+      return;
+    }
+
+    saveExemplarPack(file, pack);
+    console.log(chalk.green(`✓ Exported ${pack.exemplars.length} exemplars to ${file}`));
+  });
+
+// ==================== RULES COMMANDS ====================
+const rulesCmd = program
+  .command('rules')
+  .description('Manage Layer 1 pattern rules');
+
+// Print lint issues, returning the number of errors
+function printLintIssues(issues: RuleLintIssue[]): number {
+  for (const issue of issues) {
+    const label = issue.level === 'error' ? chalk.red('error  ') : chalk.yellow('warning');
+    console.log(`  ${label} ${issue.ruleId ? chalk.bold(issue.ruleId) + ': ' : ''}${issue.message}`);
+  }
+  return issues.filter((issue) => issue.level === 'error').length;
+}
+
+rulesCmd
+  .command('list')
+  .description('List built-in and configured rules')
+  .option('-c, --category <category>', 'Filter by category')
+  .option('--source <source>', 'Filter by source (builtin or a rule file)')
+  .option('--disabled', 'Only show disabled rules')
+  .action((options) => {
+    const cfg = loadConfig();
+    let rules: PatternRule[];
+    try {
+      rules = loadRules(cfg);
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+
+    if (options.category) {
+      rules = rules.filter((r) => r.category === options.category);
+    }
+    if (options.source) {
+      rules = rules.filter((r) => r.source === options.source || path.resolve(options.source) === r.source);
+    }
+    if (options.disabled) {
+      rules = rules.filter((r) => !r.enabled);
+    }
+
+    if (rules.length === 0) {
+      console.log(chalk.dim('No rules found'));
+      return;
+    }
+
+    const table = new Table({
+      head: ['ID', 'Category', 'Severity', 'Weight', 'Enabled', 'Description'],
+      colWidths: [32, 24, 10, 8, 9, 60],
+      wordWrap: true,
+    });
+
+    for (const rule of rules) {
+      table.push([
+        rule.id,
+        rule.category,
+        rule.severity,
+        rule.weight.toFixed(2),
+        rule.enabled ? chalk.green('yes') : chalk.red('no'),
+        rule.description ?? truncate(rule.pattern.source, 110),
+      ]);
+    }
+
+    console.log(table.toString());
+    const disabled = rules.filter((r) => !r.enabled).length;
+    console.log(chalk.dim(`Total: ${rules.length} rules (${disabled} disabled)`));
+  });
+
+rulesCmd
+  .command('test [text]')
+  .description('Show which rules match text, or run the rules\' embedded examples if no text is given')
+  .action((text) => {
+    const cfg = loadConfig();
+    let rules: PatternRule[];
+    try {
+      rules = loadRules(cfg);
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+
+    if (text !== undefined) {
+      const matches = layer1Triage(text, rules);
+      if (matches.length === 0) {
+        console.log(chalk.green('✓ No rules match'));
+        return;
+      }
+      const enabled = new Set(rules.filter((r) => r.enabled).map((r) => r.id));
+      for (const match of matches) {
+        const note = enabled.has(match.ruleId!) ? '' : chalk.dim(' (disabled)');
+        console.log(`  ${chalk.bold(match.ruleId)} ${match.category}: "${match.matched}"${note}`);
+      }
+      return;
+    }
+
+    const withExamples = rules.filter((r) => r.examples);
+    const failures = testRuleExamples(withExamples);
+    for (const failure of failures) {
+      const expectation = failure.expected === 'match' ? 'should match' : 'should not match';
+      console.log(`  ${chalk.red('✗')} ${chalk.bold(failure.ruleId)} ${expectation}: "${failure.example}"`);
+    }
+
+    if (failures.length > 0) {
+      console.log(chalk.red(`${failures.length} example(s) failed across ${withExamples.length} rules`));
+      process.exit(1);
+    }
+    console.log(chalk.green(`✓ All examples passed (${withExamples.length} rules with examples)`));
+  });
+
+rulesCmd
+  .command('lint [files...]')
+  .description('Validate rule files (default: the configured rule files)')
+  .action((files: string[]) => {
+    const cfg = loadConfig();
+    const targets = files.length > 0 ? files : cfg.rules?.files ?? [];
+
+    if (targets.length === 0) {
+      console.log(chalk.dim('No rule files configured. Use: memfw config set rules.files <file,...>'));
+      return;
+    }
+
+    const rules: PatternRule[] = [];
+    let errors = 0;
+    for (const file of targets) {
+      try {
+        const ruleFile = loadRuleFile(path.resolve(file));
+        rules.push(...ruleFile.rules);
+        console.log(`${chalk.green('✓')} ${file}: ${ruleFile.rules.length} rules`);
+      } catch (error) {
+        console.log(`${chalk.red('✗')} ${error instanceof Error ? error.message : error}`);
+        errors++;
+      }
+    }
+
+    const issues = lintRules(rules, { disabled: files.length > 0 ? undefined : cfg.rules?.disabled });
+    errors += printLintIssues(issues);
+
+    if (errors > 0) {
+      console.log(chalk.red(`${errors} error(s)`));
+      process.exit(1);
+    }
+    console.log(chalk.green(`✓ No errors${issues.length > 0 ? ` (${issues.length} warnings)` : ''}`));
+  });
+
+// ==================== POLICY COMMANDS ====================
+const policyCmd = program
+  .command('policy')
+  .description('Inspect the allow/quarantine/block policy');
+
+// Format a policy rule's conditions for display
+function formatConditions(when: PolicyConditions): string {
+  const parts = Object.entries(when).map(([key, value]) => `${key}=${Array.isArray(value) ? value.join('|') : value}`);
+  return parts.join(', ') || chalk.dim('always');
+}
+
+policyCmd
+  .command('list')
+  .description('List policy rules in evaluation order')
+  .action(() => {
+    const cfg = loadConfig();
+    let policy: PolicyEngine;
+    try {
+      policy = loadPolicy(cfg);
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+
+    const table = new Table({
+      head: ['ID', 'Action', 'When', 'Description'],
+      colWidths: [24, 20, 50, 50],
+      wordWrap: true,
+    });
+
+    for (const rule of policy.getRules()) {
+      table.push([rule.id, formatPolicyAction(rule.action), formatConditions(rule.when), rule.description ?? '']);
+    }
+
+    console.log(table.toString());
+    console.log(chalk.dim(`Default action: ${policy.getDefaultAction()}`));
+  });
+
+// ==================== LEARNED EXEMPLARS COMMANDS ====================
+const learnedCmd = program
+  .command('learned')
+  .description('Review exemplars learned from rejected and approved quarantine items');
+
+learnedCmd
+  .command('list')
+  .description('List learned exemplars')
+  .option('-k, --kind <kind>', 'Filter by kind (attack, benign)')
+  .option('-c, --category <category>', 'Filter by category')
+  .option('-n, --limit <number>', 'Limit results', '20')
+  .action((options) => {
+    ensureDataDir();
+    const store = new LearnedExemplarStore(getDbPath('learned'));
+
+    try {
+      const exemplars = store.list({
+        kind: options.kind,
+        category: options.category,
+        limit: parseInt(options.limit, 10),
+      });
+
+      if (exemplars.length === 0) {
+        console.log(chalk.dim('No learned exemplars'));
+        return;
+      }
+
+      const table = new Table({
+        head: ['ID', 'Kind', 'Category', 'Learned', 'From', 'Text'],
+        colWidths: [10, 8, 22, 18, 10, 50],
+        wordWrap: true,
+      });
+
+      for (const exemplar of exemplars) {
+        table.push([
+          exemplar.id.substring(0, 8),
+          exemplar.kind === 'benign' ? chalk.green('benign') : chalk.red('attack'),
+          exemplar.category,
+          formatDate(exemplar.learnedAt),
+          exemplar.quarantineId?.substring(0, 8) ?? '-',
+          truncate(exemplar.text, 90),
+        ]);
+      }
+
+      console.log(table.toString());
+      console.log(chalk.dim(`Showing ${exemplars.length} of ${store.getTotal()} learned exemplars`));
+    } finally {
+      store.close();
+    }
+  });
+
+learnedCmd
+  .command('show <id>')
+  .description('Show full details of a learned exemplar')
+  .action((id) => {
+    ensureDataDir();
+    const store = new LearnedExemplarStore(getDbPath('learned'));
+
+    try {
+      const exemplar = store.list().find((e) => e.id.startsWith(id));
+
+      if (!exemplar) {
+        console.log(chalk.red(`\nLearned exemplar not found: ${id}\n`));
+        process.exit(1);
+      }
+
+      console.log();
+      console.log(chalk.bold('ID:'), exemplar.id);
+      console.log(chalk.bold('Kind:'), exemplar.kind);
+      console.log(chalk.bold('Category:'), exemplar.category);
+      console.log(chalk.bold('Description:'), exemplar.description);
+      console.log(chalk.bold('Learned At:'), formatDate(exemplar.learnedAt));
+      if (exemplar.learnedBy) {
+        console.log(chalk.bold('Learned By:'), exemplar.learnedBy);
+      }
+      if (exemplar.quarantineId) {
+        console.log(chalk.bold('Quarantine ID:'), exemplar.quarantineId);
+      }
+      if (exemplar.reasoning) {
+        console.log(chalk.bold('Layer 3 Reasoning:'), exemplar.reasoning);
+      }
+      console.log();
+      console.log(chalk.bold('Text:'));
+      console.log(chalk.dim('─'.repeat(50)));
+      console.log(exemplar.text);
+      console.log(chalk.dim('─'.repeat(50)));
+      console.log();
+    } finally {
+      store.close();
+    }
+  });
+
+learnedCmd
+  .command('remove <ids...>')
+  .description('Remove learned exemplars')
+  .action((ids: string[]) => {
+    ensureDataDir();
+    const store = new LearnedExemplarStore(getDbPath('learned'));
+
+    try {
+      const exemplars = store.list();
+
+      for (const id of ids) {
+        const exemplar = exemplars.find((e) => e.id.startsWith(id));
+        if (exemplar && store.delete(exemplar.id)) {
+          console.log(chalk.green(`✓ Removed: ${exemplar.id.substring(0, 8)}`));
+        } else {
+          console.log(chalk.red(`✗ Not found: ${id}`));
+        }
+      }
+    } finally {
+      store.close();
+    }
+  });
+
+learnedCmd
+  .command('clear')
+  .description('Remove all learned exemplars')
+  .option('-k, --kind <kind>', 'Only remove this kind (attack, benign)')
+  .action((options) => {
+    ensureDataDir();
+    const store = new LearnedExemplarStore(getDbPath('learned'));
+
+    try {
+      const removed = store.clear(options.kind);
+      console.log(chalk.green(`✓ Removed ${removed} learned exemplars`));
+    } finally {
+      store.close();
     }
   });
 
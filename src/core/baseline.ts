@@ -8,7 +8,7 @@
 
 import Database from 'better-sqlite3';
 import { TrustLevel } from './types.js';
-import { EmbeddingClient, cosineSimilarity } from './embeddings.js';
+import { EmbeddingClient, EmbeddingProvider, cosineSimilarity } from './embeddings.js';
 
 /**
  * Rolling average calculator
@@ -143,10 +143,18 @@ export class BaselineTracker {
   private totalMemories: number = 0;
   private dailyMemoryCount: number = 0;
 
-  constructor(dbPath: string, config?: Partial<BaselineConfig>, embeddingClient?: EmbeddingClient) {
+  constructor(
+    dbPath: string,
+    config?: Partial<BaselineConfig>,
+    embeddings?: EmbeddingClient | EmbeddingProvider
+  ) {
     this.db = new Database(dbPath);
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.embeddingClient = embeddingClient ?? null;
+    if (embeddings instanceof EmbeddingClient) {
+      this.embeddingClient = embeddings;
+    } else if (embeddings) {
+      this.embeddingClient = new EmbeddingClient(embeddings);
+    }
 
     this.memoriesPerDay = new RollingAverage(30); // 30-day rolling window
     this.instructionRatio = new RollingAverage(100);
@@ -565,7 +573,7 @@ export function containsInstruction(text: string): boolean {
 export function createBaselineTracker(
   dbPath: string,
   config?: Partial<BaselineConfig>,
-  embeddingClient?: EmbeddingClient
+  embeddings?: EmbeddingClient | EmbeddingProvider
 ): BaselineTracker {
-  return new BaselineTracker(dbPath, config, embeddingClient);
+  return new BaselineTracker(dbPath, config, embeddings);
 }
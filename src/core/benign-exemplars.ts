@@ -0,0 +1,109 @@
+/**
+ * Layer 2: Benign exemplars for contrastive matching
+ *
+ * Instruction-shaped content that is normal for agent memory (user
+ * preferences, workflow conventions, technical notes). Content much closer
+ * to one of these than to any attack exemplar has its Layer 2 match
+ * downgraded. The set grows with items approved from quarantine.
+ */
+
+/**
+ * Benign exemplar with metadata
+ */
+export interface BenignExemplar {
+  /** The exemplar text */
+  text: string;
+  /** Brief description */
+  description: string;
+  /** Where the exemplar came from ('builtin', 'learned' or a pack name) */
+  source?: string;
+}
+
+/**
+ * Default margin by which benign similarity must exceed attack similarity
+ * before a Layer 2 match is downgraded
+ */
+export const DEFAULT_BENIGN_MARGIN = 0.1;
+
+/**
+ * Curated benign exemplars
+ */
+export const BENIGN_EXEMPLARS: BenignExemplar[] = [
+  // User preferences
+  {
+    text: 'Remember that I prefer tabs over spaces in all my projects.',
+    description: 'Formatting preference',
+  },
+  {
+    text: 'From now on, always reply to me in British English.',
+    description: 'Language preference',
+  },
+  {
+    text: 'I like short answers; skip the explanations unless I ask for them.',
+    description: 'Response style preference',
+  },
+  {
+    text: 'Always call me Sam and use my work email for calendar invites.',
+    description: 'Personal details preference',
+  },
+
+  // Workflow conventions
+  {
+    text: 'Before committing, always run the linter and the full test suite.',
+    description: 'Development workflow',
+  },
+  {
+    text: 'Never push directly to main; open a pull request and wait for review.',
+    description: 'Repository policy',
+  },
+  {
+    text: 'When you write SQL, use uppercase keywords and snake_case column names.',
+    description: 'Coding convention',
+  },
+  {
+    text: 'Ignore the generated files in the dist folder when reviewing changes.',
+    description: 'Review scope',
+  },
+
+  // Technical notes
+  {
+    text: 'The staging API key lives in the team password manager, not in the repo.',
+    description: 'Secret handling note',
+  },
+  {
+    text: 'To deploy, run the release script and then notify the team channel.',
+    description: 'Deployment runbook',
+  },
+  {
+    text: 'Use curl with the -H Authorization header to test the internal endpoint.',
+    description: 'API testing note',
+  },
+  {
+    text: 'Forget the old project deadline; the new launch date is March 3rd.',
+    description: 'Schedule update',
+  },
+];
+
+/**
+ * Get all benign exemplar texts for embedding
+ */
+export function getBenignExemplarTexts(exemplars: BenignExemplar[] = BENIGN_EXEMPLARS): string[] {
+  return exemplars.map((e) => e.text);
+}
+
+/**
+ * Merge additional benign exemplars into a base set (first one wins)
+ */
+export function mergeBenignExemplars(base: BenignExemplar[], additional: BenignExemplar[]): BenignExemplar[] {
+  const seen = new Set(base.map((e) => e.text));
+  const merged = [...base];
+
+  for (const exemplar of additional) {
+    if (!seen.has(exemplar.text)) {
+      seen.add(exemplar.text);
+      merged.push(exemplar);
+    }
+  }
+
+  return merged;
+}
@@ -0,0 +1,119 @@
+/**
+ * Chunking for long documents
+ *
+ * Splits text into overlapping sentence or paragraph windows with
+ * character offsets, so a single injected sentence in a long scraped page
+ * is scored on its own instead of being diluted in one document vector.
+ */
+
+/**
+ * A window of the original text
+ */
+export interface TextChunk {
+  /** Chunk text (exactly text.slice(start, end)) */
+  text: string;
+  /** Start offset in the original text */
+  start: number;
+  /** End offset in the original text (exclusive) */
+  end: number;
+}
+
+/**
+ * Chunking options
+ */
+export interface ChunkingOptions {
+  /** Split on sentences or paragraphs (default: sentence) */
+  mode?: 'sentence' | 'paragraph';
+  /** Sentences or paragraphs per chunk (default: 2) */
+  windowSize?: number;
+  /** Units shared by consecutive chunks (default: 1) */
+  overlap?: number;
+  /** Texts shorter than this are returned as a single chunk (default: 1000) */
+  minLength?: number;
+  /** Units longer than this are split into fixed-size pieces (default: 2000) */
+  maxChunkLength?: number;
+}
+
+/**
+ * Default chunking settings
+ */
+export const DEFAULT_CHUNKING: Required<ChunkingOptions> = {
+  mode: 'sentence',
+  windowSize: 2,
+  overlap: 1,
+  minLength: 1000,
+  maxChunkLength: 2000,
+};
+
+/**
+ * Boundaries that end a sentence or paragraph
+ */
+const BOUNDARIES = {
+  sentence: /[.!?]+["')\]]*(?=\s)|\n/g,
+  paragraph: /\n\s*\n/g,
+};
+
+/**
+ * Split text into trimmed units at the given boundaries
+ */
+function splitUnits(text: string, boundary: RegExp, maxLength: number): TextChunk[] {
+  const units: TextChunk[] = [];
+
+  const push = (start: number, end: number) => {
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+
+    // Hard-split units with no usable boundaries (e.g., minified text)
+    for (let pos = start; pos < end; pos += maxLength) {
+      const pieceEnd = Math.min(pos + maxLength, end);
+      units.push({ text: text.slice(pos, pieceEnd), start: pos, end: pieceEnd });
+    }
+  };
+
+  let start = 0;
+  for (const match of text.matchAll(new RegExp(boundary.source, boundary.flags))) {
+    const end = match.index! + match[0].length;
+    push(start, end);
+    start = end;
+  }
+  push(start, text.length);
+
+  return units;
+}
+
+/**
+ * Split text into overlapping windows of sentences or paragraphs
+ */
+export function chunkText(text: string, options: ChunkingOptions = {}): TextChunk[] {
+  const opts = { ...DEFAULT_CHUNKING, ...options };
+
+  if (text.length < opts.minLength) {
+    return [{ text, start: 0, end: text.length }];
+  }
+
+  const units = splitUnits(text, BOUNDARIES[opts.mode], opts.maxChunkLength);
+  if (units.length === 0) {
+    return [{ text, start: 0, end: text.length }];
+  }
+
+  const windowSize = Math.max(1, opts.windowSize);
+  const step = Math.max(1, windowSize - Math.max(0, opts.overlap));
+  const chunks: TextChunk[] = [];
+
+  for (let i = 0; i < units.length; i += step) {
+    const last = Math.min(i + windowSize, units.length) - 1;
+    const start = units[i].start;
+    const end = units[last].end;
+    chunks.push({ text: text.slice(start, end), start, end });
+    if (last === units.length - 1) break;
+  }
+
+  return chunks;
+}
+
+/**
+ * Split text into trimmed sentences with their offsets
+ */
+export function splitSentences(text: string): TextChunk[] {
+  return splitUnits(text, BOUNDARIES.sentence, DEFAULT_CHUNKING.maxChunkLength);
+}
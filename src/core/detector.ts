@@ -1,55 +1,263 @@
 import {
   TrustLevel,
   DetectionResult,
+  DetectionSpan,
+  StageResult,
   DEFAULT_TRUST_THRESHOLDS,
   DEFAULT_SIMILARITY_THRESHOLD,
 } from './types.js';
-import { layer1Triage, PatternMatch } from './patterns.js';
-import { EmbeddingClient, findMostSimilar } from './embeddings.js';
-import { getExemplarTexts, getExemplarByText } from './exemplars.js';
-import { LLMJudge, JudgeResult } from './judge.js';
-import { createAgentJudgeRequest, AgentJudgeRequest } from './agent-judge.js';
+import type { PatternMatch } from './patterns.js';
+import { Layer1Matcher, MatcherOptions, MatcherResult } from './matcher.js';
+import { getBuiltinRules, scoreLayer1, PatternRule } from './rules.js';
+import { EmbeddingClient, EmbeddingProvider, findMostSimilar, findTopSimilar } from './embeddings.js';
+import {
+  AttackExemplar,
+  ATTACK_EXEMPLARS,
+  getExemplarTexts,
+  mergeExemplars,
+} from './exemplars.js';
+import {
+  BenignExemplar,
+  BENIGN_EXEMPLARS,
+  DEFAULT_BENIGN_MARGIN,
+  getBenignExemplarTexts,
+  mergeBenignExemplars,
+} from './benign-exemplars.js';
+import { chunkText, ChunkingOptions, TextChunk } from './chunking.js';
+import { getNormalizedVariants, NormalizationOptions, NormalizedVariant } from './normalization.js';
+import { extractHiddenContent, ExtractedContent } from './hidden-content.js';
+import { containsInstruction } from './baseline.js';
+import { detectLanguage } from './language.js';
+import { getLocaleExemplars } from './locales/index.js';
+import { LLMJudge, Judge, JudgeResult, JudgeInputEncoding } from './judge.js';
+import type { LLMProvider } from './llm-providers.js';
+import { createAgentJudgeRequest, createAgentJudgeKey, AgentJudgeRequest } from './agent-judge.js';
+import { scanSecrets, SecretFinding, SecretScanOptions } from './secrets.js';
+import { checkReputation, ReputationFinding, ReputationOptions, DEFAULT_REPUTATION } from './reputation.js';
+import {
+  BUILTIN_STAGE_ORDER,
+  DEFAULT_STAGE_ORDER,
+  DetectionStage,
+  StageContext,
+  StageOutput,
+} from './stages.js';
+import type { EmbeddingCache } from '../storage/embedding-cache.js';
+
+/**
+ * Options for constructing a Detector
+ */
+export interface DetectorOptions {
+  /** OpenAI API key for embeddings and the external LLM judge */
+  openaiApiKey?: string;
+  /** Embedding provider for Layer 2 (takes precedence over openaiApiKey) */
+  embeddingProvider?: EmbeddingProvider;
+  /** Persistent embedding cache shared with other components */
+  embeddingCache?: EmbeddingCache;
+  enableLayer2?: boolean;
+  enableLayer3?: boolean;
+  useAgentJudge?: boolean;
+  layer3Model?: string;
+  /** Model queried by the Layer 3 judge (takes precedence over openaiApiKey and layer3Model) */
+  llmProvider?: LLMProvider;
+  /** Layer 3 judge, e.g. a JudgeEnsemble (takes precedence over llmProvider and openaiApiKey) */
+  judge?: Judge;
+  /** How content is presented to the LLM and agent judges (default: datamark) */
+  judgeInput?: JudgeInputEncoding;
+  /** Key signing agent judge request nonces (default: random per Detector; see loadAgentJudgeKey) */
+  agentJudgeKey?: string;
+  similarityThreshold?: number;
+  trustThresholds?: Partial<Record<TrustLevel, number>>;
+  /** Additional attack exemplars (e.g., from exemplar packs) */
+  exemplars?: AttackExemplar[];
+  /** Additional benign exemplars (e.g., approved quarantine items) */
+  benignExemplars?: BenignExemplar[];
+  /** How much closer to a benign exemplar content must be to downgrade a Layer 2 match */
+  benignMargin?: number;
+  /** Number of top exemplar matches reported in the result */
+  topK?: number;
+  /** Trigger Layer 2 on several moderately similar exemplars of one category */
+  categoryAggregation?: CategoryAggregationOptions;
+  /** Scan long inputs in overlapping sentence/paragraph chunks */
+  chunking?: ChunkingOptions;
+  /** Also scan normalized and decoded variants of the input (default: enabled; false to disable) */
+  normalization?: NormalizationOptions | false;
+  /** Scan hidden Markdown/HTML channels (comments, alt text, hidden elements) separately (default: true) */
+  hiddenContent?: boolean;
+  /**
+   * Localized Layer 2 exemplars: 'auto' loads a language's pack the first time
+   * content in it is scanned (default), a list loads those packs up front, false disables
+   */
+  localizedExemplars?: 'auto' | string[] | false;
+  /** Layer 1 rule set from buildRuleSet (default: the built-in triggers); disabled rules are skipped */
+  rules?: PatternRule[];
+  /** Layer 1 input size and time budget */
+  matcher?: MatcherOptions;
+  /** Look for credentials and PII being written (default: enabled; false to disable) */
+  secrets?: SecretScanOptions | false;
+  /** Check URLs, domains, IPs and emails against allow/deny lists and the bundled list (default: enabled; false to disable) */
+  reputation?: ReputationOptions | false;
+  /** Extra detection stages, run alongside the built-in layer1/secrets/reputation/layer2/layer3 stages */
+  stages?: DetectionStage[];
+}
+
+/**
+ * Options for triggering Layer 2 on aggregate category evidence
+ */
+export interface CategoryAggregationOptions {
+  /** Matches of one category needed to trigger (default: 3) */
+  minMatches?: number;
+  /** How far below the trust-level threshold a match still counts (default: 0.1) */
+  similarityOffset?: number;
+}
+
+/**
+ * Default number of top exemplar matches reported
+ */
+export const DEFAULT_TOP_K = 5;
+
+/**
+ * Exemplar match with the threshold that applies to it
+ */
+interface ExemplarMatch {
+  text: string;
+  category: string;
+  similarity: number;
+  threshold: number;
+}
+
+/**
+ * Nearest benign exemplar match
+ */
+interface BenignMatch {
+  text: string;
+  similarity: number;
+}
+
+/**
+ * Layer 2 outcome for one piece of content
+ */
+interface Layer2Evaluation {
+  /** Match reported as the Layer 2 result */
+  best: ExemplarMatch | null;
+  /** All exemplar matches, most similar first */
+  matches: ExemplarMatch[];
+  /** Highest similarity per category */
+  categorySimilarity: Record<string, number>;
+  /** Category that triggered on aggregate evidence */
+  aggregate: { category: string; count: number; threshold: number } | null;
+  benign: BenignMatch | null;
+  /** Threshold that applied to the decision */
+  threshold: number;
+  triggered: boolean;
+  suppressed: boolean;
+}
+
+/**
+ * Stage context with the built-in layers' own state
+ */
+interface PipelineContext extends StageContext {
+  layer1Scan: MatcherResult;
+  layer2: Layer2Evaluation | null;
+  layer3Result: JudgeResult | null;
+  agentJudgeRequest: AgentJudgeRequest | null;
+  /** Content agent judge requests are bound to (the full input when scanning its hidden text) */
+  boundText: string;
+  secrets: SecretFinding[];
+  reputation: ReputationFinding[];
+  /** Per-chunk findings from Layer 2 on chunked input */
+  spans?: DetectionSpan[];
+}
 
 /**
  * Detection pipeline combining Layer 1 (pattern), Layer 2 (semantic), and Layer 3 (LLM) analysis
  */
 export class Detector {
   private embeddingClient: EmbeddingClient | null = null;
-  private llmJudge: LLMJudge | null = null;
+  private llmJudge: Judge | null = null;
+  private exemplars: AttackExemplar[];
   private exemplarEmbeddings: Map<string, number[]> = new Map();
+  private benignExemplars: BenignExemplar[];
+  private benignEmbeddings: Map<string, number[]> | null = null;
+  private benignMargin: number;
+  private topK: number;
+  private categoryAggregation: Required<CategoryAggregationOptions> | null;
+  private chunking: ChunkingOptions | null;
+  private normalization: NormalizationOptions | null;
+  private hiddenContent: boolean;
+  private secrets: SecretScanOptions | null;
+  private reputation: Required<ReputationOptions> | null;
+  private matcher: Layer1Matcher;
+  private stages: DetectionStage[] = [];
+  private autoLocales: boolean;
+  private loadedLocales = new Set<string>();
   private initialized = false;
   private enableLayer2: boolean;
   private enableLayer3: boolean;
   private useAgentJudge: boolean;
+  private judgeInput: JudgeInputEncoding | undefined;
+  private agentJudgeKey: string;
   private baseSimilarityThreshold: number;
   private trustThresholds: Record<TrustLevel, number>;
 
-  constructor(options: {
-    openaiApiKey?: string;
-    enableLayer2?: boolean;
-    enableLayer3?: boolean;
-    useAgentJudge?: boolean;
-    layer3Model?: string;
-    similarityThreshold?: number;
-    trustThresholds?: Partial<Record<TrustLevel, number>>;
-  }) {
+  constructor(options: DetectorOptions) {
     this.enableLayer2 = options.enableLayer2 ?? true;
     this.enableLayer3 = options.enableLayer3 ?? false;
     this.useAgentJudge = options.useAgentJudge ?? false;
+    this.judgeInput = options.judgeInput;
+    this.agentJudgeKey = options.agentJudgeKey ?? createAgentJudgeKey();
     this.baseSimilarityThreshold = options.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD;
     this.trustThresholds = {
       ...DEFAULT_TRUST_THRESHOLDS,
       ...options.trustThresholds,
     };
+    this.exemplars = mergeExemplars(ATTACK_EXEMPLARS, options.exemplars ?? []);
+    this.benignExemplars = mergeBenignExemplars(BENIGN_EXEMPLARS, options.benignExemplars ?? []);
+    this.benignMargin = options.benignMargin ?? DEFAULT_BENIGN_MARGIN;
+    this.topK = options.topK ?? DEFAULT_TOP_K;
+    this.categoryAggregation = options.categoryAggregation ? {
+      minMatches: options.categoryAggregation.minMatches ?? 3,
+      similarityOffset: options.categoryAggregation.similarityOffset ?? 0.1,
+    } : null;
+    this.chunking = options.chunking ?? null;
+    this.normalization = options.normalization === false ? null : options.normalization ?? {};
+    this.hiddenContent = options.hiddenContent ?? true;
+    this.secrets = options.secrets === false ? null : options.secrets ?? {};
+    this.reputation = options.reputation === false ? null : { ...DEFAULT_REPUTATION, ...options.reputation };
+    this.matcher = new Layer1Matcher(
+      (options.rules ?? getBuiltinRules()).filter((rule) => rule.enabled),
+      options.matcher
+    );
+    for (const stage of [...this.createBuiltinStages(), ...options.stages ?? []]) {
+      this.addStage(stage);
+    }
+    const localized = options.localizedExemplars ?? 'auto';
+    this.autoLocales = localized === 'auto';
+    if (Array.isArray(localized)) {
+      for (const language of localized) {
+        this.exemplars = mergeExemplars(this.exemplars, getLocaleExemplars(language));
+        this.loadedLocales.add(language);
+      }
+    }
 
-    if (options.openaiApiKey) {
-      if (this.enableLayer2) {
-        this.embeddingClient = new EmbeddingClient(options.openaiApiKey);
+    if (this.enableLayer2) {
+      const clientOptions = { cache: options.embeddingCache };
+      if (options.embeddingProvider) {
+        this.embeddingClient = new EmbeddingClient(options.embeddingProvider, clientOptions);
+      } else if (options.openaiApiKey) {
+        this.embeddingClient = new EmbeddingClient(options.openaiApiKey, clientOptions);
       }
+    }
+
+    if (options.judge) {
+      this.llmJudge = options.judge;
+    } else if (options.llmProvider) {
+      this.llmJudge = new LLMJudge({ provider: options.llmProvider, encoding: options.judgeInput });
+    } else if (options.openaiApiKey) {
       if (this.enableLayer3) {
         this.llmJudge = new LLMJudge({
           apiKey: options.openaiApiKey,
           model: options.layer3Model,
+          encoding: options.judgeInput,
         });
       }
     }
@@ -62,13 +270,43 @@ export class Detector {
     if (this.initialized) return;
 
     if (this.enableLayer2 && this.embeddingClient) {
-      const exemplarTexts = getExemplarTexts();
+      const exemplarTexts = getExemplarTexts(this.exemplars);
       this.exemplarEmbeddings = await this.embeddingClient.getEmbeddings(exemplarTexts);
     }
 
     this.initialized = true;
   }
 
+  /**
+   * Register a detection stage
+   * Stages run by ascending order; stages with equal order run in registration order.
+   */
+  addStage(stage: DetectionStage): void {
+    if (this.stages.some((s) => s.name === stage.name)) {
+      throw new Error(`Detection stage "${stage.name}" is already registered`);
+    }
+    const order = stage.order ?? DEFAULT_STAGE_ORDER;
+    const index = this.stages.findIndex((s) => (s.order ?? DEFAULT_STAGE_ORDER) > order);
+    this.stages.splice(index === -1 ? this.stages.length : index, 0, stage);
+  }
+
+  /**
+   * Remove a detection stage by name (built-in layers included)
+   */
+  removeStage(name: string): boolean {
+    const index = this.stages.findIndex((s) => s.name === name);
+    if (index === -1) return false;
+    this.stages.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Get the registered detection stages in run order
+   */
+  getStages(): DetectionStage[] {
+    return [...this.stages];
+  }
+
   /**
    * Get the similarity threshold for a given trust level
    * Applies sensitivity offset from baseSimilarityThreshold
@@ -85,131 +323,571 @@ export class Detector {
 
   /**
    * Run detection pipeline on text
+   * Markdown/HTML input also has its hidden channels scanned on their own.
    */
   async detect(text: string, trustLevel: TrustLevel = TrustLevel.EXTERNAL, source?: string): Promise<DetectionResult> {
-    // Layer 1: Pattern matching
-    const layer1Matches = layer1Triage(text);
-    const layer1Triggered = layer1Matches.length > 0;
+    const { language } = detectLanguage(text);
+    if (this.autoLocales && this.enableLayer2 && !this.loadedLocales.has(language)) {
+      await this.addExemplars(getLocaleExemplars(language));
+      this.loadedLocales.add(language);
+    }
 
-    // If Layer 2 is disabled, use Agent Judge directly for Layer 1 hits (if enabled)
-    if (!this.enableLayer2 || !this.embeddingClient) {
-      const result = this.buildResult(layer1Matches, null, null, null, false, trustLevel);
-      if (layer1Triggered && this.useAgentJudge) {
-        // Route directly to Agent Judge when Layer 2 unavailable
-        result.agentJudgeRequest = createAgentJudgeRequest(
-          {
-            text,
-            source: source ?? 'unknown',
-            trustLevel,
-            layer1Flags: layer1Matches.map(m => `${m.category}: ${m.matched}`),
-            layer2Similarity: 0,
-            layer2Exemplar: undefined,
-          },
-          this.getThreshold(trustLevel)
-        );
-        result.reason = 'Layer 1 patterns matched; awaiting Agent Judge evaluation';
-      } else if (layer1Triggered) {
-        result.reason = 'Layer 1 patterns matched but Layer 2 unavailable for confirmation. ' + result.reason;
+    let result = await this.runPipeline(text, trustLevel, source);
+
+    if (this.hiddenContent) {
+      const extracted = extractHiddenContent(this.withinInputBudget(text));
+      if (extracted.hidden.length > 0) {
+        result = await this.applyHiddenContent(result, text, extracted, trustLevel, source);
       }
-      return result;
     }
 
-    // Ensure initialized
-    if (!this.initialized) {
+    result.language = language;
+    return result;
+  }
+
+  /**
+   * Run the detection stages on text
+   */
+  private async runPipeline(
+    text: string,
+    trustLevel: TrustLevel,
+    source?: string,
+    boundText: string = text
+  ): Promise<DetectionResult> {
+    const chunks = this.chunking ? chunkText(text, this.chunking) : [{ text, start: 0, end: text.length }];
+    const context: PipelineContext = {
+      text,
+      trustLevel,
+      source,
+      variants: this.getVariants(text),
+      chunks,
+      layer1Matches: [],
+      results: {},
+      flagged: false,
+      score: 0,
+      layer1Scan: { matches: [], truncated: false, timedOut: false },
+      layer2: null,
+      layer3Result: null,
+      agentJudgeRequest: null,
+      boundText,
+      secrets: [],
+      reputation: [],
+    };
+
+    if (this.isLayer2Enabled() && !this.initialized) {
       await this.initialize();
     }
 
-    // Layer 2: Semantic similarity (only if Layer 1 triggers or trust level is low)
+    const stageResults: Record<string, StageResult> = {};
+    let stopped = false;
+    for (const stage of this.stages) {
+      if (stopped || (stage.shouldRun && !stage.shouldRun(context))) {
+        stageResults[stage.name] = { ran: false, flagged: false, score: 0 };
+        continue;
+      }
+
+      const output = await stage.run(context);
+      context.results[stage.name] = output;
+      context.flagged ||= output.flagged ?? false;
+      context.score = Math.max(context.score, output.score ?? 0);
+      stageResults[stage.name] = {
+        ran: true,
+        flagged: output.flagged ?? false,
+        score: output.score ?? 0,
+        ...(output.reasons?.length ? { reasons: output.reasons } : {}),
+        ...(output.data ? { data: output.data } : {}),
+      };
+      stopped = output.stop ?? false;
+    }
+
+    const result = this.buildResult(context, stageResults);
+    const layer1Triggered = context.layer1Matches.length > 0;
+
+    // Without Layer 2, chunks with Layer 1 matches are still reported
+    const spans = context.spans ??
+      (chunks.length > 1 && layer1Triggered && !this.isLayer2Enabled() ? this.findLayer1Spans(chunks) : undefined);
+    if (spans) {
+      result.spans = spans;
+      result.chunkCount = chunks.length;
+      const flaggedSpans = spans.filter((span) => span.flagged).length;
+      if (flaggedSpans > 0) {
+        result.reason += `; ${flaggedSpans} of ${chunks.length} chunks flagged`;
+      }
+    }
+
+    if (context.agentJudgeRequest) {
+      result.agentJudgeRequest = context.agentJudgeRequest;
+    }
+
+    if (layer1Triggered && !this.isLayer2Enabled()) {
+      result.reason = context.agentJudgeRequest
+        ? 'Layer 1 patterns matched; awaiting Agent Judge evaluation'
+        : 'Layer 1 patterns matched but Layer 2 unavailable for confirmation. ' + result.reason;
+    }
+
+    return result;
+  }
+
+  /**
+   * The built-in Layer 1-3, secret scanning and reputation stages
+   * They share typed state through the PipelineContext built by runPipeline.
+   */
+  private createBuiltinStages(): DetectionStage[] {
     const lowTrustLevels = [TrustLevel.EXTERNAL, TrustLevel.TOOL_UNVERIFIED, TrustLevel.AGENT];
-    const shouldRunLayer2 = layer1Triggered || lowTrustLevels.includes(trustLevel);
 
-    if (!shouldRunLayer2) {
-      return this.buildResult(layer1Matches, null, null, null, false, trustLevel);
+    return [
+      {
+        name: 'layer1',
+        order: BUILTIN_STAGE_ORDER.layer1,
+        run: (context) => this.runLayer1(context as PipelineContext),
+      },
+      {
+        // Secrets are reported for the policy to act on; they don't flag content themselves
+        name: 'secrets',
+        order: BUILTIN_STAGE_ORDER.secrets,
+        shouldRun: () => this.secrets !== null,
+        run: (context) => {
+          const pipeline = context as PipelineContext;
+          pipeline.secrets = scanSecrets(context.text, this.secrets!);
+          return pipeline.secrets.length > 0 ? { data: { kinds: [...new Set(pipeline.secrets.map((f) => f.kind))] } } : {};
+        },
+      },
+      {
+        // Known exfiltration destinations flag; weaker indicators (shorteners, raw IPs) only add score
+        name: 'reputation',
+        order: BUILTIN_STAGE_ORDER.reputation,
+        shouldRun: () => this.reputation !== null,
+        run: (context) => {
+          const pipeline = context as PipelineContext;
+          pipeline.reputation = checkReputation(context.text, this.reputation!);
+          if (pipeline.reputation.length === 0) return {};
+          const score = Math.max(...pipeline.reputation.map((f) => f.score));
+          return {
+            flagged: score >= this.reputation!.flagThreshold,
+            score,
+            data: { indicators: [...new Set(pipeline.reputation.map((f) => f.host))] },
+          };
+        },
+      },
+      {
+        // Layer 2: Semantic similarity (only if Layer 1 triggers or trust level is low)
+        name: 'layer2',
+        order: BUILTIN_STAGE_ORDER.layer2,
+        shouldRun: (context) => this.isLayer2Enabled() &&
+          (context.layer1Matches.length > 0 || lowTrustLevels.includes(context.trustLevel)),
+        run: (context) => this.runLayer2(context as PipelineContext),
+      },
+      {
+        // Layer 3: judges borderline cases; without Layer 2, Layer 1 hits go straight to the Agent Judge
+        name: 'layer3',
+        order: BUILTIN_STAGE_ORDER.layer3,
+        shouldRun: (context) => {
+          const { layer2 } = context as PipelineContext;
+          return this.isLayer2Enabled()
+            ? layer2 !== null && !layer2.triggered
+            : context.layer1Matches.length > 0 && this.useAgentJudge;
+        },
+        run: (context) => this.runLayer3(context as PipelineContext),
+      },
+    ];
+  }
+
+  /**
+   * Layer 1: Pattern matching on the input and its normalized/decoded variants
+   */
+  private runLayer1(context: PipelineContext): StageOutput {
+    context.layer1Scan = this.triage(context.text, context.variants);
+    context.layer1Matches = context.layer1Scan.matches;
+    return { score: scoreLayer1(context.layer1Matches).score };
+  }
+
+  /**
+   * Layer 2: Semantic similarity of the input (or its chunks) and decoded variants
+   */
+  private async runLayer2(context: PipelineContext): Promise<StageOutput> {
+    const { text, chunks, variants, trustLevel } = context;
+
+    let layer2: Layer2Evaluation;
+    if (chunks.length > 1) {
+      ({ layer2, spans: context.spans } = await this.evaluateChunks(chunks, trustLevel));
+    } else {
+      const textEmbedding = await this.embeddingClient!.getEmbedding(text);
+      layer2 = await this.evaluateLayer2(textEmbedding, trustLevel);
     }
 
-    const textEmbedding = await this.embeddingClient.getEmbedding(text);
-    const bestMatch = findMostSimilar(textEmbedding, this.exemplarEmbeddings);
+    // Decoded variants are embedded too, chunked like the input; leetspeak folding is Layer 1 only
+    const decoded = variants
+      .filter((v) => !v.transformations.includes('leetspeak'))
+      .flatMap((v) => (this.chunking ? chunkText(v.text, this.chunking).map((c) => c.text) : [v.text]));
+    if (decoded.length > 0) {
+      const embeddings = await this.embeddingClient!.getEmbeddings(decoded);
+      for (const embedding of embeddings.values()) {
+        const evaluation = await this.evaluateLayer2(embedding, trustLevel);
+        if (Detector.outranks(evaluation, layer2)) {
+          layer2 = evaluation;
+        }
+      }
+    }
 
-    const threshold = this.getThreshold(trustLevel);
-    const layer2Triggered = bestMatch !== null && bestMatch.similarity >= threshold;
+    context.layer2 = layer2;
+    return {
+      flagged: layer2.triggered,
+      score: layer2.best && !layer2.suppressed ? layer2.best.similarity : 0,
+    };
+  }
 
-    // Layer 3: LLM Judge for borderline cases
-    let layer3Result: JudgeResult | null = null;
-    let agentJudgeRequest: AgentJudgeRequest | null = null;
+  /**
+   * Layer 3: LLM Judge (external or agent) for borderline cases
+   */
+  private async runLayer3(context: PipelineContext): Promise<StageOutput> {
+    const { text, source, trustLevel, layer1Matches, layer2 } = context;
+    const judgeContext = {
+      text,
+      source: source ?? 'unknown',
+      trustLevel,
+      layer1Flags: layer1Matches.map(m => `${m.category}: ${m.matched}`),
+      layer2Similarity: layer2?.best?.similarity ?? 0,
+      layer2Exemplar: layer2?.best?.text,
+    };
 
-    if (!layer2Triggered) {
-      const shouldEvaluate = LLMJudge.shouldEvaluate({
-        layer1Triggered,
-        layer2Similarity: bestMatch?.similarity ?? 0,
-        layer2Threshold: threshold,
-        trustLevel,
+    // Route directly to Agent Judge when Layer 2 unavailable
+    if (!layer2) {
+      context.agentJudgeRequest = createAgentJudgeRequest(judgeContext, this.getThreshold(trustLevel), {
+        encoding: this.judgeInput,
+        key: this.agentJudgeKey,
+        boundText: context.boundText,
       });
+      return {};
+    }
 
-      if (shouldEvaluate) {
-        if (this.useAgentJudge) {
-          // Return request for agent to self-evaluate
-          agentJudgeRequest = createAgentJudgeRequest(
-            {
-              text,
-              source: source ?? 'unknown',
-              trustLevel,
-              layer1Flags: layer1Matches.map(m => `${m.category}: ${m.matched}`),
-              layer2Similarity: bestMatch?.similarity ?? 0,
-              layer2Exemplar: bestMatch?.text,
-            },
-            threshold
-          );
-        } else if (this.enableLayer3 && this.llmJudge) {
-          // Use external LLM judge
-          layer3Result = await this.llmJudge.evaluate({
-            text,
-            source: source ?? 'unknown',
-            trustLevel,
-            layer1Flags: layer1Matches.map(m => `${m.category}: ${m.matched}`),
-            layer2Similarity: bestMatch?.similarity ?? 0,
-            layer2Exemplar: bestMatch?.text,
-          });
+    const shouldEvaluate = LLMJudge.shouldEvaluate({
+      layer1Triggered: layer1Matches.length > 0,
+      layer1Score: scoreLayer1(layer1Matches).score,
+      layer2Similarity: judgeContext.layer2Similarity,
+      layer2Threshold: layer2.threshold,
+      trustLevel,
+    });
+    if (!shouldEvaluate) {
+      return {};
+    }
+
+    if (this.useAgentJudge) {
+      // Return request for agent to self-evaluate
+      context.agentJudgeRequest = createAgentJudgeRequest(judgeContext, layer2.threshold, {
+        encoding: this.judgeInput,
+        key: this.agentJudgeKey,
+        boundText: context.boundText,
+      });
+      return {};
+    }
+
+    if (this.enableLayer3 && this.llmJudge) {
+      // Use external LLM judge
+      const layer3Result = await this.llmJudge.evaluate(judgeContext);
+      context.layer3Result = layer3Result;
+      const flagged = layer3Result.verdict === 'DANGEROUS' || layer3Result.verdict === 'SUSPICIOUS';
+      return {
+        flagged,
+        score: layer3Result.verdict === 'DANGEROUS' ? 0.9 : layer3Result.verdict === 'SUSPICIOUS' ? 0.7 : 0,
+      };
+    }
+
+    return {};
+  }
+
+  /**
+   * Score an embedding against all exemplars
+   * Exemplars with their own threshold are judged against it; the rest use
+   * the trust-level threshold. Reports the strongest triggered match, else
+   * the most similar exemplar overall.
+   */
+  private async evaluateLayer2(embedding: number[], trustLevel: TrustLevel): Promise<Layer2Evaluation> {
+    const trustThreshold = this.getThreshold(trustLevel);
+    const exemplarsByText = new Map(this.exemplars.map((e) => [e.text, e]));
+
+    // Calibration is monotonic, so the order from findTopSimilar is kept
+    const matches: ExemplarMatch[] = findTopSimilar(embedding, this.exemplarEmbeddings).map((match) => {
+      const exemplar = exemplarsByText.get(match.text);
+      return {
+        text: match.text,
+        category: exemplar?.category ?? 'unknown',
+        similarity: this.embeddingClient!.calibrateSimilarity(match.similarity),
+        threshold: exemplar?.threshold ?? trustThreshold,
+      };
+    });
+
+    const categorySimilarity: Record<string, number> = {};
+    for (const match of matches) {
+      categorySimilarity[match.category] = Math.max(categorySimilarity[match.category] ?? 0, match.similarity);
+    }
+
+    const best = matches.find((m) => m.similarity >= m.threshold) ?? matches[0] ?? null;
+    const benign = await this.matchBenign(embedding);
+    const aggregate = this.findAggregateCategory(matches, trustThreshold);
+
+    const singleTriggered = best !== null && best.similarity >= best.threshold;
+    const suppressed = (singleTriggered || aggregate !== null) && this.isSuppressed(best, benign);
+
+    return {
+      best,
+      matches,
+      categorySimilarity,
+      aggregate,
+      benign,
+      threshold: singleTriggered || !aggregate ? best?.threshold ?? trustThreshold : aggregate.threshold,
+      triggered: (singleTriggered || aggregate !== null) && !suppressed,
+      suppressed,
+    };
+  }
+
+  /**
+   * Run Layer 1 and Layer 2 on each chunk of a long input
+   * The document verdict comes from the strongest chunk (triggered first,
+   * then most similar); chunks with any finding are reported as spans.
+   */
+  private async evaluateChunks(
+    chunks: TextChunk[],
+    trustLevel: TrustLevel
+  ): Promise<{ layer2: Layer2Evaluation; spans: DetectionSpan[] }> {
+    const embeddings = await this.embeddingClient!.getEmbeddings(chunks.map((c) => c.text));
+    const spans: DetectionSpan[] = [];
+    let strongest: Layer2Evaluation | null = null;
+
+    for (const chunk of chunks) {
+      const evaluation = await this.evaluateLayer2(embeddings.get(chunk.text)!, trustLevel);
+      const patterns = this.matcher.scan(chunk.text).matches.map((m) => `${m.category}: ${m.matched}`);
+
+      if (evaluation.triggered || patterns.length > 0) {
+        spans.push({
+          start: chunk.start,
+          end: chunk.end,
+          text: chunk.text,
+          layer1Patterns: patterns,
+          layer2Similarity: evaluation.best?.similarity ?? 0,
+          category: evaluation.best?.category,
+          flagged: evaluation.triggered,
+        });
+      }
+
+      if (!strongest || Detector.outranks(evaluation, strongest)) {
+        strongest = evaluation;
+      }
+    }
+
+    return { layer2: strongest!, spans };
+  }
+
+  /**
+   * Scan hidden channels on their own and merge the outcome into the result
+   * The hiddenContent signal is raised when hidden text carries instruction-like
+   * content that the visible text does not.
+   */
+  private async applyHiddenContent(
+    result: DetectionResult,
+    text: string,
+    extracted: ExtractedContent,
+    trustLevel: TrustLevel,
+    source?: string
+  ): Promise<DetectionResult> {
+    const hiddenText = extracted.hidden.map((segment) => segment.text).join('\n');
+    const hidden = await this.runPipeline(hiddenText, trustLevel, source, text);
+
+    const visibleCategories = new Set(this.layer1(extracted.visible).map((m) => m.category));
+    const hiddenOnly = this.layer1(hiddenText).filter((m) => !visibleCategories.has(m.category));
+    const triggered = hiddenOnly.length > 0 ||
+      (containsInstruction(hiddenText) && !containsInstruction(extracted.visible));
+    const channels = [...new Set(extracted.hidden.map((segment) => segment.channel))];
+    const carriers = extracted.hidden.filter((segment) => this.matcher.scan(segment.text).matches.length > 0 || containsInstruction(segment.text));
+    const carrierChannels = carriers.length > 0 ? [...new Set(carriers.map((segment) => segment.channel))] : channels;
+
+    const merged: DetectionResult = {
+      ...result,
+      passed: result.passed && hidden.passed,
+      score: Math.max(result.score, hidden.score),
+      hiddenContent: {
+        triggered,
+        channels,
+        segments: extracted.hidden,
+        patterns: hiddenOnly.map((m) => `${m.category}: ${m.matched}`),
+        passed: hidden.passed,
+        score: hidden.score,
+        layer2Similarity: hidden.layer2.similarity,
+      },
+    };
+
+    if (triggered) {
+      // Mark the hidden constructs carrying instructions so reviewers can find them
+      const spans = carriers.map((segment) => ({
+        start: segment.start,
+        end: segment.end,
+        text: segment.text,
+        layer1Patterns: this.matcher.scan(segment.text).matches.map((m) => `${m.category}: ${m.matched}`),
+        layer2Similarity: 0,
+        category: segment.channel,
+        flagged: true,
+      }));
+      merged.spans = [...(result.spans ?? []), ...spans];
+      merged.agentJudgeRequest ??= hidden.agentJudgeRequest;
+    }
+
+    if (result.passed && !hidden.passed) {
+      merged.reason = `Hidden content (${carrierChannels.join(', ')}) flagged: ${hidden.reason}`;
+    } else if (triggered) {
+      merged.reason += `; Hidden content (${carrierChannels.join(', ')}) contains instructions not in visible text`;
+    }
+
+    return merged;
+  }
+
+  /**
+   * Normalized/decoded variants of text (empty when normalization is disabled)
+   */
+  private getVariants(text: string): NormalizedVariant[] {
+    return this.normalization ? getNormalizedVariants(this.withinInputBudget(text), this.normalization) : [];
+  }
+
+  /**
+   * Text cut to the Layer 1 input budget, for the preprocessing that runs before the matcher
+   * The matcher reports the scan as truncated.
+   */
+  private withinInputBudget(text: string): string {
+    const max = this.matcher.getMaxInputLength();
+    return text.length > max ? text.slice(0, max) : text;
+  }
+
+  /**
+   * Run Layer 1 on text and its variants
+   */
+  private layer1(text: string): PatternMatch[] {
+    return this.triage(text, this.getVariants(text)).matches;
+  }
+
+  /**
+   * Run Layer 1 on the input and its variants, keeping the first match per rule
+   * The scan counts as truncated or timed out if any of them was.
+   */
+  private triage(text: string, variants: NormalizedVariant[]): MatcherResult {
+    const scan = this.matcher.scan(text);
+    const seen = new Set(scan.matches.map((m) => m.ruleId));
+
+    for (const variant of variants) {
+      const variantScan = this.matcher.scan(variant.text);
+      scan.truncated ||= variantScan.truncated;
+      scan.timedOut ||= variantScan.timedOut;
+      for (const match of variantScan.matches) {
+        if (!seen.has(match.ruleId)) {
+          seen.add(match.ruleId);
+          // Offsets point into the variant, not the input
+          scan.matches.push({ ...match, offsets: undefined });
         }
       }
     }
 
-    // Determine if flagged based on Layer 2 and Layer 3 only
-    // Layer 1 is triage-only: it gates Layer 2 but doesn't block by itself
-    const layer3Triggered = layer3Result?.verdict === 'DANGEROUS' ||
-                            layer3Result?.verdict === 'SUSPICIOUS';
-    const flagged = layer2Triggered || layer3Triggered;
+    return scan;
+  }
+
+  /**
+   * Whether one Layer 2 evaluation (chunk or variant) is stronger evidence than another
+   */
+  private static outranks(a: Layer2Evaluation, b: Layer2Evaluation): boolean {
+    if (a.triggered !== b.triggered) return a.triggered;
+    return (a.best?.similarity ?? 0) > (b.best?.similarity ?? 0);
+  }
+
+  /**
+   * Report chunks with Layer 1 matches (when Layer 2 is unavailable)
+   */
+  private findLayer1Spans(chunks: TextChunk[]): DetectionSpan[] {
+    const spans: DetectionSpan[] = [];
+
+    for (const chunk of chunks) {
+      const patterns = this.matcher.scan(chunk.text).matches.map((m) => `${m.category}: ${m.matched}`);
+      if (patterns.length > 0) {
+        spans.push({
+          start: chunk.start,
+          end: chunk.end,
+          text: chunk.text,
+          layer1Patterns: patterns,
+          layer2Similarity: 0,
+          flagged: false,
+        });
+      }
+    }
+
+    return spans;
+  }
+
+  /**
+   * Find a category with enough moderately similar exemplars to trigger
+   * Returns the category with the most qualifying matches (null if disabled or none).
+   */
+  private findAggregateCategory(
+    matches: ExemplarMatch[],
+    trustThreshold: number
+  ): Layer2Evaluation['aggregate'] {
+    if (!this.categoryAggregation) return null;
 
-    const result = this.buildResult(layer1Matches, bestMatch, threshold, layer3Result, flagged, trustLevel);
+    const threshold = trustThreshold - this.categoryAggregation.similarityOffset;
+    const counts = new Map<string, number>();
+    for (const match of matches) {
+      if (match.similarity >= threshold) {
+        counts.set(match.category, (counts.get(match.category) ?? 0) + 1);
+      }
+    }
 
-    // Add agent judge request if needed
-    if (agentJudgeRequest) {
-      result.agentJudgeRequest = agentJudgeRequest;
+    let aggregate: Layer2Evaluation['aggregate'] = null;
+    for (const [category, count] of counts) {
+      if (count >= this.categoryAggregation.minMatches && (!aggregate || count > aggregate.count)) {
+        aggregate = { category, count, threshold };
+      }
     }
 
-    return result;
+    return aggregate;
+  }
+
+  /**
+   * Find the most similar benign exemplar for an embedding
+   * Benign exemplars are embedded on first use, so detectors that never
+   * reach Layer 2 don't pay for them.
+   */
+  private async matchBenign(embedding: number[]): Promise<BenignMatch | null> {
+    if (!this.benignEmbeddings) {
+      this.benignEmbeddings = await this.embeddingClient!.getEmbeddings(
+        getBenignExemplarTexts(this.benignExemplars)
+      );
+    }
+
+    const nearest = findMostSimilar(embedding, this.benignEmbeddings);
+    return nearest
+      ? { text: nearest.text, similarity: this.embeddingClient!.calibrateSimilarity(nearest.similarity) }
+      : null;
+  }
+
+  /**
+   * Whether content is much closer to a benign exemplar than to the attack match
+   */
+  private isSuppressed(attackMatch: ExemplarMatch | null, benignMatch: BenignMatch | null): boolean {
+    if (!attackMatch || !benignMatch) return false;
+    return benignMatch.similarity - attackMatch.similarity >= this.benignMargin;
   }
 
   /**
    * Build detection result object
    */
-  private buildResult(
-    layer1Matches: PatternMatch[],
-    layer2Match: { text: string; similarity: number } | null,
-    threshold: number | null,
-    layer3Result: JudgeResult | null,
-    flagged: boolean,
-    trustLevel: TrustLevel
-  ): DetectionResult {
+  private buildResult(context: PipelineContext, stages: Record<string, StageResult>): DetectionResult {
+    const { layer1Scan, layer2, layer3Result, variants, flagged, secrets, reputation } = context;
+    const layer1Matches = layer1Scan.matches;
     const layer1Triggered = layer1Matches.length > 0;
-    const layer2Triggered = layer2Match !== null && threshold !== null && layer2Match.similarity >= threshold;
-    const layer3Triggered = layer3Result?.verdict === 'DANGEROUS' || layer3Result?.verdict === 'SUSPICIOUS';
+    const layer2Match = layer2?.best ?? null;
+    const benignMatch = layer2?.benign ?? null;
+    const suppressed = layer2?.suppressed ?? false;
+    const layer2Triggered = layer2?.triggered ?? false;
+    const transformations = [...new Set(variants.flatMap((v) => v.transformations))];
+    const layer1Score = scoreLayer1(layer1Matches);
 
-    // Calculate overall score
-    let score = 0;
-    if (layer1Triggered) {
-      score += 0.5 + (layer1Matches.length * 0.1); // Base 0.5, +0.1 per pattern
-    }
-    if (layer2Match) {
+    // Calculate overall score, starting from the weighted Layer 1 score
+    let score = layer1Score.score;
+    if (layer2Match && !suppressed) {
       score = Math.max(score, layer2Match.similarity);
     }
     if (layer3Result) {
@@ -222,6 +900,14 @@ export class Detector {
         score = Math.min(score, 0.3); // High-confidence SAFE can reduce score
       }
     }
+    if (stages.reputation?.ran) {
+      score = Math.max(score, stages.reputation.score);
+    }
+    // Extra stages can only raise the score
+    const extraStages = Object.entries(stages).filter(([name]) => !(name in BUILTIN_STAGE_ORDER));
+    for (const [, stage] of extraStages) {
+      score = Math.max(score, stage.score);
+    }
     score = Math.min(score, 1);
 
     // Build reason
@@ -230,19 +916,60 @@ export class Detector {
       const categories = [...new Set(layer1Matches.map(m => m.category))];
       reasons.push(`Layer 1 patterns matched: ${categories.join(', ')}`);
     }
-    if (layer2Triggered && layer2Match) {
-      const exemplar = getExemplarByText(layer2Match.text);
+    if (layer2Triggered && layer2?.aggregate && layer2Match && layer2Match.similarity < layer2Match.threshold) {
+      reasons.push(
+        `Layer 2 aggregate evidence: ${layer2.aggregate.count} "${layer2.aggregate.category}" exemplars ` +
+        `above ${(layer2.aggregate.threshold * 100).toFixed(1)}% similarity`
+      );
+    } else if (layer2Triggered && layer2Match) {
       reasons.push(
         `Layer 2 similarity ${(layer2Match.similarity * 100).toFixed(1)}% ` +
-        `(threshold: ${((threshold ?? 0) * 100).toFixed(1)}%) ` +
-        `matched "${exemplar?.category ?? 'unknown'}" attack pattern`
+        `(threshold: ${(layer2Match.threshold * 100).toFixed(1)}%) ` +
+        `matched "${layer2Match.category}" attack pattern`
       );
     }
-    if (layer3Result) {
+    if (suppressed && layer2Match && benignMatch) {
+      reasons.push(
+        `Layer 2 attack similarity ${(layer2Match.similarity * 100).toFixed(1)}% downgraded: ` +
+        `closer to benign exemplar (${(benignMatch.similarity * 100).toFixed(1)}%)`
+      );
+    }
+    for (const type of ['secret', 'pii'] as const) {
+      const kinds = [...new Set(secrets.filter((f) => f.type === type).map((f) => f.kind))];
+      if (kinds.length > 0) {
+        reasons.push(`${type === 'secret' ? 'Secrets' : 'PII'} found: ${kinds.join(', ')}`);
+      }
+    }
+    if (reputation.length > 0) {
+      const indicators = [...new Map(reputation.map((f) => [f.host, `${f.host} (${f.category})`])).values()];
+      reasons.push(`Suspicious destinations: ${indicators.join(', ')}`);
+    }
+    if (layer1Scan.truncated) {
+      reasons.push('Layer 1 scanned only the start of oversized input');
+    }
+    if (layer1Scan.timedOut) {
+      reasons.push('Layer 1 time budget exceeded before all rules were checked');
+    }
+    if (transformations.length > 0 && (layer1Triggered || layer2Triggered)) {
+      reasons.push(`Input normalized: ${transformations.join(', ')}`);
+    }
+    if (layer3Result?.error) {
+      reasons.push(`Layer 3 LLM judge gave no verdict (${layer3Result.error}); treated as SUSPICIOUS`);
+    } else if (layer3Result?.disagreement) {
+      reasons.push(`Layer 3 judges disagree (${layer3Result.reasoning})`);
+    } else if (layer3Result) {
+      const judges = layer3Result.votes ? `, ${layer3Result.votes.length} judges` : '';
       reasons.push(
-        `Layer 3 LLM judge: ${layer3Result.verdict} (${(layer3Result.confidence * 100).toFixed(0)}% confidence)`
+        `Layer 3 LLM judge: ${layer3Result.verdict} (${(layer3Result.confidence * 100).toFixed(0)}% confidence${judges})`
       );
     }
+    for (const [name, stage] of extraStages) {
+      if (stage.reasons) {
+        reasons.push(...stage.reasons);
+      } else if (stage.flagged) {
+        reasons.push(`Stage "${name}" flagged content`);
+      }
+    }
     if (!flagged) {
       reasons.push('Content passed all detection layers');
     }
@@ -253,18 +980,49 @@ export class Detector {
       layer1: {
         triggered: layer1Triggered,
         patterns: layer1Matches.map(m => `${m.category}: ${m.matched}`),
+        score: layer1Score.score,
+        categoryScores: layer1Score.categoryScores,
+        contributions: layer1Score.contributions,
+        ...(layer1Scan.truncated ? { truncated: true } : {}),
+        ...(layer1Scan.timedOut ? { timedOut: true } : {}),
+        ...(layer1Triggered ? {
+          offsets: layer1Matches.flatMap((m) => (m.offsets ?? []).map(({ start, end }) => ({
+            ruleId: m.ruleId,
+            category: m.category,
+            start,
+            end,
+          }))),
+          ...(layer1Matches.some((m) => !m.offsets || m.capped) ? { unlocated: true } : {}),
+        } : {}),
       },
       layer2: {
         triggered: layer2Triggered,
         similarity: layer2Match?.similarity ?? 0,
         matchedExemplar: layer2Match?.text,
+        ...(layer2 ? {
+          topMatches: layer2.matches.slice(0, this.topK).map(({ text, category, similarity }) => ({
+            text,
+            category,
+            similarity,
+          })),
+          categorySimilarity: layer2.categorySimilarity,
+          aggregateCategory: layer2.aggregate?.category,
+        } : {}),
+        ...(benignMatch ? {
+          benignSimilarity: benignMatch.similarity,
+          matchedBenignExemplar: benignMatch.text,
+          margin: (layer2Match?.similarity ?? 0) - benignMatch.similarity,
+          suppressed,
+        } : {}),
       },
-      layer3: layer3Result ? {
-        evaluated: true,
-        verdict: layer3Result.verdict,
-        confidence: layer3Result.confidence,
-        reasoning: layer3Result.reasoning,
+      layer3: layer3Result ? { evaluated: true, ...layer3Result } : undefined,
+      normalization: transformations.length > 0 ? {
+        transformations,
+        variants: variants.map(({ text, transformations }) => ({ text, transformations })),
       } : undefined,
+      secrets: secrets.length > 0 ? secrets : undefined,
+      reputation: reputation.length > 0 ? reputation : undefined,
+      stages,
       reason: reasons.join('; '),
     };
   }
@@ -273,7 +1031,7 @@ export class Detector {
    * Quick Layer 1 only check (no API calls)
    */
   quickCheck(text: string): { suspicious: boolean; patterns: string[] } {
-    const matches = layer1Triage(text);
+    const matches = this.layer1(text);
     return {
       suspicious: matches.length > 0,
       patterns: matches.map(m => `${m.category}: ${m.matched}`),
@@ -294,6 +1052,65 @@ export class Detector {
     return this.enableLayer2 && this.embeddingClient !== null;
   }
 
+  /**
+   * Get the Layer 2 embedding client (for sharing with BaselineTracker)
+   */
+  getEmbeddingClient(): EmbeddingClient | null {
+    return this.embeddingClient;
+  }
+
+  /**
+   * Add exemplars at runtime (e.g., learned from reviewer feedback)
+   * Embeds the new texts immediately if the detector is already initialized.
+   */
+  async addExemplars(exemplars: AttackExemplar[]): Promise<void> {
+    this.exemplars = mergeExemplars(this.exemplars, exemplars);
+
+    if (this.initialized && this.embeddingClient) {
+      const missing = this.exemplars
+        .map((e) => e.text)
+        .filter((text) => !this.exemplarEmbeddings.has(text));
+      if (missing.length > 0) {
+        const embeddings = await this.embeddingClient.getEmbeddings(missing);
+        for (const [text, embedding] of embeddings) {
+          this.exemplarEmbeddings.set(text, embedding);
+        }
+      }
+    }
+  }
+
+  /**
+   * Add benign exemplars at runtime (e.g., approved quarantine items)
+   */
+  async addBenignExemplars(exemplars: BenignExemplar[]): Promise<void> {
+    this.benignExemplars = mergeBenignExemplars(this.benignExemplars, exemplars);
+
+    if (this.benignEmbeddings && this.embeddingClient) {
+      const missing = getBenignExemplarTexts(this.benignExemplars)
+        .filter((text) => !this.benignEmbeddings!.has(text));
+      if (missing.length > 0) {
+        const embeddings = await this.embeddingClient.getEmbeddings(missing);
+        for (const [text, embedding] of embeddings) {
+          this.benignEmbeddings.set(text, embedding);
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the benign exemplars used for contrastive matching
+   */
+  getBenignExemplars(): BenignExemplar[] {
+    return this.benignExemplars;
+  }
+
+  /**
+   * Get the exemplars used for Layer 2 (built-in plus any packs)
+   */
+  getExemplars(): AttackExemplar[] {
+    return this.exemplars;
+  }
+
   /**
    * Check if Layer 3 is enabled
    */
@@ -305,15 +1122,7 @@ export class Detector {
 /**
  * Create and initialize a detector
  */
-export async function createDetector(options: {
-  openaiApiKey?: string;
-  enableLayer2?: boolean;
-  enableLayer3?: boolean;
-  useAgentJudge?: boolean;
-  layer3Model?: string;
-  similarityThreshold?: number;
-  trustThresholds?: Partial<Record<TrustLevel, number>>;
-}): Promise<Detector> {
+export async function createDetector(options: DetectorOptions): Promise<Detector> {
   const detector = new Detector(options);
   await detector.initialize();
   return detector;
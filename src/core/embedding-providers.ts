@@ -0,0 +1,175 @@
+/**
+ * Embedding providers for Layer 2
+ *
+ * Implementations of the EmbeddingProvider interface for the OpenAI API,
+ * self-hosted OpenAI-compatible servers (vLLM, Ollama, LM Studio) and a
+ * deterministic stub for tests, plus a factory that builds one from config.
+ */
+
+import OpenAI from 'openai';
+import type { EmbeddingProvider } from './embeddings.js';
+import { LocalEmbeddingProvider } from './local-embeddings.js';
+
+/**
+ * Provider types selectable from configuration
+ */
+export type EmbeddingProviderType = 'openai' | 'openai-compatible' | 'local';
+
+/**
+ * Configuration for building an embedding provider
+ */
+export interface EmbeddingProviderConfig {
+  /** Which provider implementation to use */
+  provider: EmbeddingProviderType;
+  /** Embedding model name (provider default if omitted) */
+  model?: string;
+  /** Base URL for OpenAI-compatible servers (e.g., http://localhost:11434/v1) */
+  baseURL?: string;
+  /** API key (optional for most self-hosted servers) */
+  apiKey?: string;
+  /** Expected vector dimension; responses of another size are rejected */
+  dimensions?: number;
+}
+
+/**
+ * Embedding provider backed by the OpenAI embeddings API
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string = 'openai';
+  readonly model: string;
+  readonly dimensions?: number;
+  readonly baseURL?: string;
+  protected client: OpenAI;
+  /** Whether to send the expected dimension with each request */
+  protected requestDimensions = true;
+
+  constructor(options: {
+    apiKey: string;
+    model?: string;
+    baseURL?: string;
+    dimensions?: number;
+  }) {
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+    this.model = options.model ?? 'text-embedding-3-small';
+    this.baseURL = options.baseURL;
+    this.dimensions = options.dimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+      ...(this.requestDimensions && this.dimensions !== undefined ? { dimensions: this.dimensions } : {}),
+    });
+    // Servers are not required to preserve input order; sort by index
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map((d) => d.embedding);
+  }
+}
+
+/**
+ * Embedding provider for any server exposing the OpenAI embeddings endpoint
+ *
+ * Unlike the OpenAI provider, the expected dimension is only validated,
+ * never sent, since most self-hosted servers reject the parameter.
+ */
+export class OpenAICompatibleEmbeddingProvider extends OpenAIEmbeddingProvider {
+  readonly name = 'openai-compatible';
+  protected requestDimensions = false;
+
+  constructor(options: {
+    baseURL: string;
+    model: string;
+    apiKey?: string;
+    dimensions?: number;
+  }) {
+    super({
+      // The SDK requires a key even when the server ignores it
+      apiKey: options.apiKey ?? 'not-needed',
+      model: options.model,
+      baseURL: options.baseURL,
+      dimensions: options.dimensions,
+    });
+  }
+}
+
+/**
+ * Deterministic embedding provider for tests
+ *
+ * Returns fixed vectors for registered texts and a hash-derived vector
+ * for everything else. Records every batch it is asked to embed.
+ */
+export class StubEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'stub';
+  readonly model = 'stub';
+  readonly dimensions: number;
+  /** Batches passed to embed(), in call order */
+  readonly calls: string[][] = [];
+  private vectors: Map<string, number[]>;
+
+  constructor(options: { dimensions?: number; vectors?: Record<string, number[]> } = {}) {
+    this.dimensions = options.dimensions ?? 8;
+    this.vectors = new Map(Object.entries(options.vectors ?? {}));
+  }
+
+  /**
+   * Register a fixed vector for a text
+   */
+  setVector(text: string, vector: number[]): void {
+    this.vectors.set(text, vector);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.calls.push([...texts]);
+    return texts.map((text) => this.vectors.get(text) ?? this.hashVector(text));
+  }
+
+  private hashVector(text: string): number[] {
+    const vector: number[] = [];
+    let seed = 0;
+    for (let i = 0; i < text.length; i++) {
+      seed = (Math.imul(seed, 31) + text.charCodeAt(i)) >>> 0;
+    }
+    for (let i = 0; i < this.dimensions; i++) {
+      seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+      vector.push((seed / 0xffffffff) * 2 - 1);
+    }
+    return vector;
+  }
+}
+
+/**
+ * Create an embedding provider from configuration
+ *
+ * Returns null when the OpenAI provider is selected without an API key,
+ * in which case Layer 2 is unavailable.
+ */
+export function createEmbeddingProvider(config: EmbeddingProviderConfig): EmbeddingProvider | null {
+  switch (config.provider) {
+    case 'local':
+      return new LocalEmbeddingProvider({ dimensions: config.dimensions });
+    case 'openai-compatible':
+      if (!config.baseURL || !config.model) {
+        throw new Error('openai-compatible embedding provider requires baseURL and model');
+      }
+      return new OpenAICompatibleEmbeddingProvider({
+        baseURL: config.baseURL,
+        model: config.model,
+        apiKey: config.apiKey,
+        dimensions: config.dimensions,
+      });
+    case 'openai':
+      if (!config.apiKey) {
+        return null;
+      }
+      return new OpenAIEmbeddingProvider({
+        apiKey: config.apiKey,
+        model: config.model,
+        baseURL: config.baseURL,
+        dimensions: config.dimensions,
+      });
+    default:
+      throw new Error(`Unknown embedding provider: ${String(config.provider)}`);
+  }
+}
@@ -1,18 +1,68 @@
-import OpenAI from 'openai';
+import { OpenAIEmbeddingProvider } from './embedding-providers.js';
+import type { EmbeddingCache, EmbeddingCacheNamespace } from '../storage/embedding-cache.js';
+
+/**
+ * Source of embedding vectors for Layer 2 semantic analysis
+ */
+export interface EmbeddingProvider {
+  /** Provider identifier (e.g., 'openai', 'local') */
+  readonly name: string;
+  /** Model identifier used to produce the vectors */
+  readonly model: string;
+  /** Expected vector dimension, if known in advance */
+  readonly dimensions?: number;
+  /** Endpoint serving the model, when not the provider's default */
+  readonly baseURL?: string;
+  /** Embed a batch of texts, returning vectors in input order */
+  embed(texts: string[]): Promise<number[][]>;
+  /**
+   * Map raw cosine similarity onto the scale Layer 2 thresholds are tuned for.
+   * Providers whose similarities are already comparable can omit this.
+   */
+  calibrateSimilarity?(similarity: number): number;
+}
+
+/**
+ * Default maximum number of cached vectors
+ */
+export const DEFAULT_EMBEDDING_CACHE_SIZE = 10000;
+
+/**
+ * Options for an EmbeddingClient
+ */
+export interface EmbeddingClientOptions {
+  /** OpenAI model when constructed from an API key (default: text-embedding-3-small) */
+  model?: string;
+  /** Persistent cache shared across processes */
+  cache?: EmbeddingCache;
+  /** In-process cache limit before LRU eviction (default: the persistent cache's limit) */
+  maxCacheEntries?: number;
+}
 
 /**
  * Embedding client for Layer 2 semantic analysis
- * Uses OpenAI's text-embedding-3-small model
+ * Wraps an EmbeddingProvider with a bounded in-process LRU cache and an optional
+ * persistent cache. Passing an API key string uses OpenAI's
+ * text-embedding-3-small model.
  */
 export class EmbeddingClient {
-  private client: OpenAI;
+  private provider: EmbeddingProvider;
   private cache: Map<string, number[]>;
-  private model: string;
+  private maxCacheEntries: number;
+  private persistentCache: EmbeddingCache | null;
+  private dimensions: number | null;
 
-  constructor(apiKey: string, model = 'text-embedding-3-small') {
-    this.client = new OpenAI({ apiKey });
+  constructor(provider: EmbeddingProvider | string, options: EmbeddingClientOptions | string = {}) {
+    const opts = typeof options === 'string' ? { model: options } : options;
+    this.provider = typeof provider === 'string'
+      ? new OpenAIEmbeddingProvider({ apiKey: provider, model: opts.model })
+      : provider;
     this.cache = new Map();
-    this.model = model;
+    this.persistentCache = opts.cache ?? null;
+    this.maxCacheEntries = opts.maxCacheEntries
+      ?? this.persistentCache?.getMaxEntries()
+      ?? DEFAULT_EMBEDDING_CACHE_SIZE;
+    this.dimensions = this.provider.dimensions ?? null;
   }
 
   /**
@@ -20,19 +70,8 @@ export class EmbeddingClient {
    * Uses cache to avoid redundant API calls
    */
   async getEmbedding(text: string): Promise<number[]> {
-    const cached = this.cache.get(text);
-    if (cached) {
-      return cached;
-    }
-
-    const response = await this.client.embeddings.create({
-      model: this.model,
-      input: text,
-    });
-
-    const embedding = response.data[0].embedding;
-    this.cache.set(text, embedding);
-    return embedding;
+    const results = await this.getEmbeddings([text]);
+    return results.get(text)!;
   }
 
   /**
@@ -40,31 +79,53 @@ export class EmbeddingClient {
    */
   async getEmbeddings(texts: string[]): Promise<Map<string, number[]>> {
     const results = new Map<string, number[]>();
-    const uncached: string[] = [];
+    let uncached: string[] = [];
 
-    // Check cache first
-    for (const text of texts) {
+    // Check in-process cache first
+    for (const text of new Set(texts)) {
       const cached = this.cache.get(text);
       if (cached) {
+        // Re-insert so the Map's insertion order tracks recency
+        this.cache.delete(text);
+        this.cache.set(text, cached);
         results.set(text, cached);
       } else {
         uncached.push(text);
       }
     }
 
+    // Then the persistent cache
+    if (uncached.length > 0 && this.persistentCache) {
+      const stored = this.persistentCache.getMany(this.getCacheNamespace(), uncached);
+      for (const [text, embedding] of stored) {
+        this.checkDimensions(embedding);
+        this.remember(text, embedding);
+        results.set(text, embedding);
+      }
+      uncached = uncached.filter((text) => !stored.has(text));
+    }
+
     // Batch request for uncached texts
     if (uncached.length > 0) {
-      const response = await this.client.embeddings.create({
-        model: this.model,
-        input: uncached,
-      });
+      const embeddings = await this.provider.embed(uncached);
+      if (embeddings.length !== uncached.length) {
+        throw new Error(
+          `Embedding provider ${this.provider.name} returned ${embeddings.length} vectors for ${uncached.length} inputs`
+        );
+      }
 
       for (let i = 0; i < uncached.length; i++) {
         const text = uncached[i];
-        const embedding = response.data[i].embedding;
-        this.cache.set(text, embedding);
+        const embedding = embeddings[i];
+        this.checkDimensions(embedding);
+        this.remember(text, embedding);
         results.set(text, embedding);
       }
+
+      if (this.persistentCache) {
+        const fresh = new Map(uncached.map((text) => [text, results.get(text)!]));
+        this.persistentCache.setMany(this.getCacheNamespace(), fresh);
+      }
     }
 
     return results;
@@ -78,7 +139,63 @@ export class EmbeddingClient {
   }
 
   /**
-   * Clear the embedding cache
+   * Add a vector to the in-process cache, evicting the least recently used
+   */
+  private remember(text: string, embedding: number[]): void {
+    this.cache.set(text, embedding);
+    for (const oldest of this.cache.keys()) {
+      if (this.cache.size <= this.maxCacheEntries) break;
+      this.cache.delete(oldest);
+    }
+  }
+
+  /**
+   * Persistent cache key space for this client's provider
+   */
+  private getCacheNamespace(): EmbeddingCacheNamespace {
+    return {
+      // The same model name can be served differently by different endpoints
+      provider: this.provider.baseURL ? `${this.provider.name}@${this.provider.baseURL}` : this.provider.name,
+      model: this.provider.model,
+      dimensions: this.provider.dimensions,
+    };
+  }
+
+  /**
+   * Ensure every vector has the same dimension
+   * Catches misconfigured models before they produce meaningless similarities
+   */
+  private checkDimensions(embedding: number[] | undefined): void {
+    if (!embedding) {
+      throw new Error(`Embedding provider ${this.provider.name} returned no vector`);
+    }
+    if (this.dimensions === null) {
+      this.dimensions = embedding.length;
+    } else if (embedding.length !== this.dimensions) {
+      throw new Error(
+        `Embedding dimension mismatch from ${this.provider.name}/${this.provider.model}: ` +
+        `expected ${this.dimensions}, got ${embedding.length}`
+      );
+    }
+  }
+
+  /**
+   * Map a raw cosine similarity onto the provider's calibrated scale
+   */
+  calibrateSimilarity(similarity: number): number {
+    return this.provider.calibrateSimilarity?.(similarity) ?? similarity;
+  }
+
+  /**
+   * Get the underlying provider
+   */
+  getProvider(): EmbeddingProvider {
+    return this.provider;
+  }
+
+  /**
+   * Clear the in-process embedding cache
+   * The persistent cache is managed separately (see EmbeddingCache.clear)
    */
   clearCache(): void {
     this.cache.clear();
@@ -138,3 +255,22 @@ export function findMostSimilar(
 
   return bestMatch;
 }
+
+/**
+ * Rank candidates by similarity to a target, most similar first
+ * @param k - Maximum number of results (all candidates if omitted)
+ */
+export function findTopSimilar(
+  targetEmbedding: number[],
+  candidateEmbeddings: Map<string, number[]>,
+  k?: number
+): Array<{ text: string; similarity: number }> {
+  const ranked: Array<{ text: string; similarity: number }> = [];
+
+  for (const [text, embedding] of candidateEmbeddings) {
+    ranked.push({ text, similarity: cosineSimilarity(targetEmbedding, embedding) });
+  }
+
+  ranked.sort((a, b) => b.similarity - a.similarity);
+  return k === undefined ? ranked : ranked.slice(0, k);
+}
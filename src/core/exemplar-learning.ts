@@ -0,0 +1,178 @@
+/**
+ * Exemplar learning
+ *
+ * Opt-in feedback loop that promotes rejected quarantine items into a
+ * local learned-exemplar set, so Layer 2 catches close variants of
+ * attacks a reviewer has already confirmed. Approved items seed the benign
+ * set used for contrastive matching. Items that are near-duplicates of an
+ * existing exemplar are skipped to keep the sets small.
+ */
+
+import { QuarantinedMemory } from './types.js';
+import { AttackExemplar, ATTACK_EXEMPLARS, mergeExemplars } from './exemplars.js';
+import { BenignExemplar, BENIGN_EXEMPLARS, mergeBenignExemplars } from './benign-exemplars.js';
+import { EmbeddingClient, findMostSimilar } from './embeddings.js';
+import type { LearnedExemplarStore, LearnedExemplar } from '../storage/learned-exemplars.js';
+
+/**
+ * Similarity at or above which a reviewed item counts as a duplicate
+ */
+export const DEFAULT_LEARNING_DEDUP_THRESHOLD = 0.92;
+
+/**
+ * Category used when none can be inferred
+ */
+export const LEARNED_CATEGORY = 'learned';
+
+/**
+ * Category recorded for exemplars learned from approved items
+ */
+export const BENIGN_CATEGORY = 'benign';
+
+/**
+ * Outcome of promoting a reviewed item
+ */
+export interface LearnResult {
+  /** Whether a new exemplar was stored */
+  learned: boolean;
+  /** The stored exemplar (if learned) */
+  exemplar?: LearnedExemplar;
+  /** Text of the existing exemplar the item duplicated (if skipped) */
+  duplicateOf?: string;
+  /** Similarity to the closest existing exemplar */
+  similarity?: number;
+}
+
+/**
+ * Options for the exemplar learner
+ */
+export interface ExemplarLearnerOptions {
+  /** Where learned exemplars are persisted */
+  store: LearnedExemplarStore;
+  /** Embedding client for similarity dedup (exact-text dedup only if omitted) */
+  embeddingClient?: EmbeddingClient | null;
+  /** Existing exemplars to dedup against (default: built-in set) */
+  exemplars?: AttackExemplar[];
+  /** Existing benign exemplars to dedup approved items against (default: built-in set) */
+  benignExemplars?: BenignExemplar[];
+  /** Similarity at or above which an item is considered a duplicate */
+  dedupThreshold?: number;
+  /** Keep the Layer 3 reasoning with the learned exemplar */
+  includeReasoning?: boolean;
+}
+
+/**
+ * Convert a Layer 1 pattern category (camelCase) to an exemplar category
+ */
+function toExemplarCategory(patternCategory: string): string {
+  return patternCategory.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+}
+
+/**
+ * Infer an attack category for a rejected item
+ * Prefers the category of the matched Layer 2 exemplar, then the first Layer 1 flag.
+ */
+export function inferCategory(memory: QuarantinedMemory, exemplars: AttackExemplar[] = ATTACK_EXEMPLARS): string {
+  if (memory.layer2Exemplar) {
+    const match = exemplars.find((e) => e.text === memory.layer2Exemplar);
+    if (match) return match.category;
+  }
+
+  const flag = memory.layer1Flags[0];
+  if (flag) {
+    return toExemplarCategory(flag.split(':')[0].trim());
+  }
+
+  return LEARNED_CATEGORY;
+}
+
+/**
+ * Promotes reviewed quarantine items into learned attack or benign exemplars
+ */
+export class ExemplarLearner {
+  private store: LearnedExemplarStore;
+  private embeddingClient: EmbeddingClient | null;
+  private exemplars: AttackExemplar[];
+  private benignExemplars: BenignExemplar[];
+  private dedupThreshold: number;
+  private includeReasoning: boolean;
+
+  constructor(options: ExemplarLearnerOptions) {
+    this.store = options.store;
+    this.embeddingClient = options.embeddingClient ?? null;
+    this.exemplars = options.exemplars ?? ATTACK_EXEMPLARS;
+    this.benignExemplars = options.benignExemplars ?? BENIGN_EXEMPLARS;
+    this.dedupThreshold = options.dedupThreshold ?? DEFAULT_LEARNING_DEDUP_THRESHOLD;
+    this.includeReasoning = options.includeReasoning ?? false;
+  }
+
+  /**
+   * Learn from a rejected quarantine item
+   */
+  async learn(memory: QuarantinedMemory, reviewedBy?: string): Promise<LearnResult> {
+    const existing = mergeExemplars(this.exemplars, this.store.getExemplars());
+    const duplicate = await this.findDuplicate(memory.text.trim(), existing.map((e) => e.text));
+    if (duplicate) return duplicate;
+
+    const exemplar = this.store.add({
+      kind: 'attack',
+      text: memory.text.trim(),
+      category: inferCategory(memory, existing),
+      description: `Rejected from ${memory.source}`,
+      quarantineId: memory.id,
+      reasoning: this.includeReasoning ? memory.layer3Reasoning : undefined,
+      learnedBy: reviewedBy,
+    });
+
+    return { learned: true, exemplar };
+  }
+
+  /**
+   * Learn a benign exemplar from an approved quarantine item
+   */
+  async learnBenign(memory: QuarantinedMemory, reviewedBy?: string): Promise<LearnResult> {
+    const existing = mergeBenignExemplars(this.benignExemplars, this.store.getBenignExemplars());
+    const duplicate = await this.findDuplicate(memory.text.trim(), existing.map((e) => e.text));
+    if (duplicate) return duplicate;
+
+    const exemplar = this.store.add({
+      kind: 'benign',
+      text: memory.text.trim(),
+      category: BENIGN_CATEGORY,
+      description: `Approved from ${memory.source}`,
+      quarantineId: memory.id,
+      reasoning: this.includeReasoning ? memory.layer3Reasoning : undefined,
+      learnedBy: reviewedBy,
+    });
+
+    return { learned: true, exemplar };
+  }
+
+  /**
+   * Check whether text duplicates an existing exemplar
+   * Uses exact match, then embedding similarity when a client is available.
+   */
+  private async findDuplicate(text: string, existing: string[]): Promise<LearnResult | null> {
+    if (existing.includes(text) || this.store.getByText(text)) {
+      return { learned: false, duplicateOf: text, similarity: 1 };
+    }
+
+    if (!this.embeddingClient || existing.length === 0) {
+      return null;
+    }
+
+    const embeddings = await this.embeddingClient.getEmbeddings([...existing, text]);
+    const target = embeddings.get(text)!;
+    embeddings.delete(text);
+
+    const nearest = findMostSimilar(target, embeddings);
+    if (nearest) {
+      const similarity = this.embeddingClient.calibrateSimilarity(nearest.similarity);
+      if (similarity >= this.dedupThreshold) {
+        return { learned: false, duplicateOf: nearest.text, similarity };
+      }
+    }
+
+    return null;
+  }
+}
@@ -17,6 +17,10 @@ export interface AttackExemplar {
   category: string;
   /** Brief description */
   description: string;
+  /** Absolute similarity threshold for this exemplar (overrides the trust-level threshold) */
+  threshold?: number;
+  /** Where the exemplar came from ('builtin' or a pack name) */
+  source?: string;
 }
 
 /**
@@ -213,27 +217,51 @@ export const ATTACK_EXEMPLARS: AttackExemplar[] = [
 /**
  * Get all exemplar texts for embedding
  */
-export function getExemplarTexts(): string[] {
-  return ATTACK_EXEMPLARS.map((e) => e.text);
+export function getExemplarTexts(exemplars: AttackExemplar[] = ATTACK_EXEMPLARS): string[] {
+  return exemplars.map((e) => e.text);
 }
 
 /**
  * Get exemplar by text
  */
-export function getExemplarByText(text: string): AttackExemplar | undefined {
-  return ATTACK_EXEMPLARS.find((e) => e.text === text);
+export function getExemplarByText(
+  text: string,
+  exemplars: AttackExemplar[] = ATTACK_EXEMPLARS
+): AttackExemplar | undefined {
+  return exemplars.find((e) => e.text === text);
 }
 
 /**
  * Get all unique categories
  */
-export function getCategories(): string[] {
-  return [...new Set(ATTACK_EXEMPLARS.map((e) => e.category))];
+export function getCategories(exemplars: AttackExemplar[] = ATTACK_EXEMPLARS): string[] {
+  return [...new Set(exemplars.map((e) => e.category))];
 }
 
 /**
  * Get exemplars by category
  */
-export function getExemplarsByCategory(category: string): AttackExemplar[] {
-  return ATTACK_EXEMPLARS.filter((e) => e.category === category);
+export function getExemplarsByCategory(
+  category: string,
+  exemplars: AttackExemplar[] = ATTACK_EXEMPLARS
+): AttackExemplar[] {
+  return exemplars.filter((e) => e.category === category);
+}
+
+/**
+ * Merge additional exemplars into a base set
+ * Exemplars whose text is already present are skipped (first one wins).
+ */
+export function mergeExemplars(base: AttackExemplar[], additional: AttackExemplar[]): AttackExemplar[] {
+  const seen = new Set(base.map((e) => e.text));
+  const merged = [...base];
+
+  for (const exemplar of additional) {
+    if (!seen.has(exemplar.text)) {
+      seen.add(exemplar.text);
+      merged.push(exemplar);
+    }
+  }
+
+  return merged;
 }
@@ -0,0 +1,233 @@
+/**
+ * Hidden-content extraction for Markdown and HTML
+ *
+ * Scraped pages and Markdown notes can carry text that is never rendered:
+ * HTML comments, collapsed <details> bodies, image alt text, link titles,
+ * CSS-hidden elements and reference-style link definitions. Attackers use
+ * these channels to hide instructions from a human reviewer while the
+ * agent still reads them. This module pulls them out so they can be
+ * scanned on their own and compared with the visible text.
+ */
+
+/**
+ * Where a hidden segment was found
+ */
+export type HiddenChannel =
+  | 'htmlComment'
+  | 'details'
+  | 'altText'
+  | 'linkTitle'
+  | 'cssHidden'
+  | 'linkDefinition';
+
+/**
+ * Text found in a hidden channel
+ */
+export interface HiddenSegment {
+  /** Channel the text was hidden in */
+  channel: HiddenChannel;
+  /** Extracted text (tags stripped, whitespace collapsed) */
+  text: string;
+  /** Start offset of the construct in the original text */
+  start: number;
+  /** End offset of the construct in the original text (exclusive) */
+  end: number;
+}
+
+/**
+ * Input split into rendered and hidden text
+ */
+export interface ExtractedContent {
+  /** Text a reader would see once rendered */
+  visible: string;
+  /** Segments from hidden channels, in document order */
+  hidden: HiddenSegment[];
+}
+
+/**
+ * Opening tag of an element hidden with inline CSS or the hidden/aria-hidden attributes
+ * Tag bodies stop at the next < so an unclosed tag can't be rescanned from every later one.
+ */
+const CSS_HIDDEN_OPENER = new RegExp(
+  '<(\\w+)\\b[^<>]*?(?:style\\s*=\\s*["\'][^"\'<>]*?(?:display\\s*:\\s*none|visibility\\s*:\\s*hidden|' +
+    'font-size\\s*:\\s*0(?![.\\d]*[1-9])|opacity\\s*:\\s*0(?![.\\d]*[1-9]))[^"\'<>]*["\']|\\shidden(?=[\\s>=/])|' +
+    'aria-hidden\\s*=\\s*["\']true["\'])[^<>]*>',
+  'gi'
+);
+
+/**
+ * Hidden channels that run from an opener to a closer (comments and elements)
+ * The closer is found with a linear scan rather than a lazy regex, which
+ * would rescan the rest of the input from every unclosed opener.
+ * `closer` is '-->' or the name of the element to close.
+ */
+const PAIRED_CHANNELS: Array<{ channel: HiddenChannel; opener: RegExp; closer: (m: RegExpExecArray) => string; extract: (body: string) => string }> = [
+  {
+    channel: 'htmlComment',
+    opener: /<!--/g,
+    closer: () => '-->',
+    extract: (body) => body,
+  },
+  {
+    channel: 'details',
+    opener: /<details\b[^<>]*>/gi,
+    closer: () => 'details',
+    extract: (body) => removeElement(body, 'summary'),
+  },
+  {
+    channel: 'cssHidden',
+    opener: CSS_HIDDEN_OPENER,
+    closer: (m) => m[1].toLowerCase(),
+    extract: (body) => body,
+  },
+];
+
+/**
+ * Hidden channels matched by a single pattern, and how to pull their text out of a match
+ * Block channels are removed from the visible text; attribute channels
+ * disappear with the tags or link syntax that carry them.
+ */
+const CHANNELS: Array<{ channel: HiddenChannel; pattern: RegExp; extract: (m: RegExpMatchArray) => string; block: boolean }> = [
+  {
+    // [label]: url "title"  and the  [//]: # (comment)  idiom
+    channel: 'linkDefinition',
+    pattern: /^[ \t]{0,3}\[([^\]\n]+)\]:[ \t]*(\S+)(?:[ \t]+(?:"([^"\n]*)"|'([^'\n]*)'|\(([^)\n]*)\)))?[ \t]*$/gm,
+    extract: (m) => m[3] ?? m[4] ?? m[5] ?? '',
+    block: true,
+  },
+  {
+    channel: 'altText',
+    pattern: /<img\b[^<>]*?\balt\s*=\s*(?:"([^"<>]*)"|'([^'<>]*)')[^<>]*>|!\[([^[\]]*)\]\([^()]*\)/gi,
+    extract: (m) => m[1] ?? m[2] ?? m[3] ?? '',
+    block: false,
+  },
+  {
+    channel: 'linkTitle',
+    pattern: /<[a-z][^<>]*?\stitle\s*=\s*(?:"([^"<>]*)"|'([^'<>]*)')[^<>]*>|\]\(\s*[^\s()]+\s+(?:"([^"()]*)"|'([^'()]*)')\s*\)/gi,
+    extract: (m) => m[1] ?? m[2] ?? m[3] ?? m[4] ?? '',
+    block: false,
+  },
+];
+
+/**
+ * Lowercase ASCII letters only, so offsets stay aligned with the original text
+ */
+function lowerAscii(text: string): string {
+  return text.replace(/[A-Z]+/g, (letters) => letters.toLowerCase());
+}
+
+/**
+ * Find the closer of a construct whose body starts at `from`
+ * `lower` is the text with ASCII letters lowercased. Returns the closer's
+ * start and end offsets, or null if the text has no closer after `from`.
+ */
+function findCloser(lower: string, from: number, closer: string): [number, number] | null {
+  if (closer === '-->') {
+    const at = lower.indexOf('-->', from);
+    return at === -1 ? null : [at, at + 3];
+  }
+  const needle = `</${closer}`;
+  for (let at = lower.indexOf(needle, from); at !== -1; at = lower.indexOf(needle, at + needle.length)) {
+    let end = at + needle.length;
+    while (end < lower.length && /\s/.test(lower[end])) end++;
+    if (lower[end] === '>') return [at, end + 1];
+  }
+  return null;
+}
+
+/**
+ * Remove the first element with the given tag name
+ */
+function removeElement(text: string, tag: string): string {
+  const opener = new RegExp(`<${tag}\\b[^<>]*>`, 'i').exec(text);
+  if (!opener) return text;
+  const close = findCloser(lowerAscii(text), opener.index + opener[0].length, tag);
+  return close ? text.slice(0, opener.index) + text.slice(close[1]) : text;
+}
+
+/**
+ * Strip tags and collapse whitespace
+ */
+function toPlainText(text: string): string {
+  return text.replace(/<[^<>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Whether text contains any Markdown or HTML construct that can hide content
+ */
+export function mayHideContent(text: string): boolean {
+  return /<[a-z!]|\]\(|\]:/i.test(text);
+}
+
+/**
+ * Extract hidden channels from Markdown or HTML text
+ */
+export function extractHiddenContent(text: string): ExtractedContent {
+  if (!mayHideContent(text)) {
+    return { visible: text, hidden: [] };
+  }
+
+  const hidden: HiddenSegment[] = [];
+  const blocks: Array<{ start: number; end: number }> = [];
+  const lower = lowerAscii(text);
+
+  for (const { channel, opener, closer, extract } of PAIRED_CHANNELS) {
+    const pattern = new RegExp(opener.source, opener.flags);
+    // Closers known to be missing from the rest of the text
+    const unclosed = new Set<string>();
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      const name = closer(match);
+      if (unclosed.has(name)) continue;
+      const close = findCloser(lower, pattern.lastIndex, name);
+      if (!close) {
+        unclosed.add(name);
+        continue;
+      }
+
+      const segmentText = toPlainText(extract(text.slice(pattern.lastIndex, close[0])));
+      if (segmentText) {
+        hidden.push({ channel, text: segmentText, start: match.index, end: close[1] });
+      }
+      blocks.push({ start: match.index, end: close[1] });
+      pattern.lastIndex = close[1];
+    }
+  }
+
+  for (const { channel, pattern, extract, block } of CHANNELS) {
+    for (const match of text.matchAll(new RegExp(pattern.source, pattern.flags))) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      const segmentText = toPlainText(extract(match));
+
+      if (segmentText) {
+        hidden.push({ channel, text: segmentText, start, end });
+      }
+      if (block) {
+        blocks.push({ start, end });
+      }
+    }
+  }
+
+  // Visible text: drop hidden blocks, then link/image syntax and remaining tags
+  let visible = '';
+  let pos = 0;
+  for (const { start, end } of blocks.sort((a, b) => a.start - b.start)) {
+    if (start >= pos) {
+      visible += text.slice(pos, start) + ' ';
+      pos = end;
+    } else if (end > pos) {
+      pos = end;
+    }
+  }
+  visible += text.slice(pos);
+  visible = visible
+    .replace(/!\[[^[\]]*\]\([^()]*\)/g, ' ')
+    .replace(/\[([^[\]]*)\]\([^()]*\)/g, '$1')
+    .replace(/<[^<>]*>/g, ' ')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n/g, '\n\n')
+    .trim();
+
+  return { visible, hidden: hidden.sort((a, b) => a.start - b.start) };
+}
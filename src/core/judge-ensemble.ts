@@ -0,0 +1,154 @@
+/**
+ * Layer 3: Judge ensemble
+ *
+ * Queries several judges (different models, providers or prompts) on the
+ * same content and combines their verdicts by vote. When the judges split
+ * between SAFE and unsafe, the content is held for review with a
+ * judge_disagreement reason rather than letting one side win, since a
+ * payload that fools some judges but not others is exactly the case a
+ * human should look at.
+ */
+
+import { Judge, JudgeContext, JudgeResult, JudgeVerdict, JudgeVote, judgeFailure } from './judge.js';
+
+/**
+ * How votes are combined
+ * - majority: most votes wins
+ * - any_dangerous: a single DANGEROUS vote wins, otherwise majority
+ * - weighted: votes count weight x confidence
+ */
+export type VotingStrategy = 'majority' | 'any_dangerous' | 'weighted';
+
+export const VOTING_STRATEGIES: VotingStrategy[] = ['majority', 'any_dangerous', 'weighted'];
+
+/**
+ * Reason given when judges split
+ */
+export const JUDGE_DISAGREEMENT = 'judge_disagreement';
+
+/**
+ * A judge taking part in an ensemble
+ */
+export interface EnsembleMember {
+  /** Name reported with the judge's vote */
+  name: string;
+  judge: Judge;
+  /** Calibration weight for weighted voting: how far the judge's confidence is trusted (default: 1) */
+  weight?: number;
+}
+
+/**
+ * Ensemble options
+ */
+export interface JudgeEnsembleOptions {
+  judges: EnsembleMember[];
+  /** Default: majority */
+  voting?: VotingStrategy;
+}
+
+/** Severity order, used to break ties toward caution */
+const SEVERITY: Record<JudgeVerdict, number> = { SAFE: 0, SUSPICIOUS: 1, DANGEROUS: 2 };
+
+/**
+ * Several judges voting on one verdict
+ */
+export class JudgeEnsemble implements Judge {
+  private judges: EnsembleMember[];
+  private voting: VotingStrategy;
+
+  constructor(options: JudgeEnsembleOptions) {
+    if (options.judges.length === 0) {
+      throw new Error('A judge ensemble needs at least one judge');
+    }
+    const names = new Set<string>();
+    for (const member of options.judges) {
+      if (names.has(member.name)) {
+        throw new Error(`Judge "${member.name}" is already in the ensemble`);
+      }
+      names.add(member.name);
+    }
+    this.judges = options.judges;
+    this.voting = options.voting ?? 'majority';
+  }
+
+  /**
+   * Query all judges in parallel and combine their votes
+   */
+  async evaluate(context: JudgeContext): Promise<JudgeResult> {
+    const votes = await Promise.all(this.judges.map(async ({ name, judge, weight }): Promise<JudgeVote> => {
+      let result: JudgeResult;
+      try {
+        result = await judge.evaluate(context);
+      } catch (error) {
+        result = judgeFailure(`Judge failed: ${error instanceof Error ? error.message : error}`);
+      }
+      return {
+        judge: name,
+        verdict: result.verdict,
+        confidence: result.confidence,
+        weight: weight ?? 1,
+        reasoning: result.reasoning,
+        ...(result.error ? { error: result.error } : {}),
+      };
+    }));
+
+    return combineVotes(votes, this.voting);
+  }
+
+  getJudges(): EnsembleMember[] {
+    return [...this.judges];
+  }
+
+  getVoting(): VotingStrategy {
+    return this.voting;
+  }
+}
+
+/**
+ * Combine judge votes into one result
+ * Votes with an error count as SUSPICIOUS, so a failing judge can't leave
+ * a lone SAFE vote unopposed; if every vote has one, the result is a
+ * judgeFailure.
+ */
+export function combineVotes(votes: JudgeVote[], voting: VotingStrategy = 'majority'): JudgeResult {
+  if (votes.every((vote) => vote.error)) {
+    return { ...judgeFailure('No judge gave a usable verdict'), votes };
+  }
+  const counted = votes.map((vote): JudgeVote => (vote.error ? { ...vote, verdict: 'SUSPICIOUS' } : vote));
+
+  const tally: Record<JudgeVerdict, number> = { SAFE: 0, SUSPICIOUS: 0, DANGEROUS: 0 };
+  for (const vote of counted) {
+    tally[vote.verdict] += voting === 'weighted' ? vote.weight * vote.confidence : 1;
+  }
+
+  let verdict = (Object.keys(tally) as JudgeVerdict[])
+    .filter((v) => tally[v] > 0)
+    .sort((a, b) => tally[b] - tally[a] || SEVERITY[b] - SEVERITY[a])[0];
+  if (voting === 'any_dangerous' && tally.DANGEROUS > 0) {
+    verdict = 'DANGEROUS';
+  }
+
+  const agreeing = counted.filter((vote) => vote.verdict === verdict);
+  const confidence = agreeing.reduce((sum, vote) => sum + vote.confidence, 0) / agreeing.length;
+  const safeVotes = counted.filter((vote) => vote.verdict === 'SAFE').length;
+  const disagreement = safeVotes > 0 && safeVotes < counted.length;
+
+  if (disagreement) {
+    return {
+      // A split is never waved through
+      verdict: verdict === 'SAFE' ? 'SUSPICIOUS' : verdict,
+      confidence,
+      reasoning: `${JUDGE_DISAGREEMENT}: ${safeVotes} of ${counted.length} judges voted SAFE (${voting} vote: ${verdict})`,
+      votes,
+      disagreement,
+    };
+  }
+
+  return {
+    verdict,
+    confidence,
+    reasoning: agreeing[0].reasoning,
+    votes,
+    disagreement,
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Language detection
+ *
+ * Lightweight script and stopword based identification, good enough to
+ * pick localized exemplar packs and report the language of scanned
+ * content. Not meant for short or heavily mixed-language text.
+ */
+
+/**
+ * Code reported when the language can't be determined
+ */
+export const UNKNOWN_LANGUAGE = 'und';
+
+/**
+ * Detected language
+ */
+export interface LanguageDetection {
+  /** ISO 639-1 code, or 'und' */
+  language: string;
+  /** Share of the evidence supporting the detected language (0-1) */
+  confidence: number;
+}
+
+/**
+ * Languages identified by script, checked in order
+ * Japanese comes before Chinese since Japanese text also uses Han characters.
+ */
+const SCRIPTS: Array<{ language: string; pattern: RegExp; minShare: number }> = [
+  { language: 'ja', pattern: /[\u3040-\u30FF]/gu, minShare: 0.1 },
+  { language: 'ko', pattern: /[\uAC00-\uD7AF\u1100-\u11FF]/gu, minShare: 0.3 },
+  { language: 'zh', pattern: /[\u4E00-\u9FFF]/gu, minShare: 0.3 },
+  { language: 'ru', pattern: /[\u0400-\u04FF]/gu, minShare: 0.5 },
+  { language: 'ar', pattern: /[\u0600-\u06FF]/gu, minShare: 0.5 },
+];
+
+/**
+ * Frequent function words for Latin-script languages
+ */
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'you', 'to', 'of', 'that', 'it', 'for', 'with', 'your', 'all', 'this'],
+  es: ['el', 'la', 'los', 'las', 'de', 'que', 'y', 'en', 'por', 'para', 'una', 'todas', 'tus', 'es', 'lo'],
+  fr: ['le', 'la', 'les', 'des', 'et', 'est', 'que', 'vous', 'tu', 'pour', 'une', 'toutes', 'tes', 'du', 'ne'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'du', 'sie', 'ich', 'mit', 'alle', 'deine', 'ein', 'zu'],
+  pt: ['o', 'os', 'as', 'de', 'que', 'e', 'não', 'você', 'para', 'uma', 'com', 'todas', 'suas', 'do', 'da'],
+  it: ['il', 'lo', 'gli', 'le', 'di', 'che', 'e', 'non', 'per', 'una', 'sono', 'tutte', 'tue', 'del', 'della'],
+};
+
+/**
+ * Characters that only occur in one of the Latin-script languages
+ */
+const LETTER_HINTS: Record<string, RegExp> = {
+  es: /[ñ¿¡]/g,
+  pt: /[ãõ]/g,
+  de: /[äöüß]/g,
+  fr: /[èêëœ]/g,
+};
+
+/**
+ * Detect the dominant language of text
+ */
+export function detectLanguage(text: string): LanguageDetection {
+  const letters = text.match(/\p{L}/gu)?.length ?? 0;
+  if (letters === 0) {
+    return { language: UNKNOWN_LANGUAGE, confidence: 0 };
+  }
+
+  for (const { language, pattern, minShare } of SCRIPTS) {
+    const share = (text.match(pattern)?.length ?? 0) / letters;
+    if (share >= minShare) {
+      return { language, confidence: Math.min(1, share) };
+    }
+  }
+
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  const scores: Record<string, number> = {};
+  for (const [language, stopwords] of Object.entries(STOPWORDS)) {
+    const set = new Set(stopwords);
+    scores[language] = words.filter((word) => set.has(word)).length;
+  }
+  for (const [language, pattern] of Object.entries(LETTER_HINTS)) {
+    scores[language] += text.toLowerCase().match(pattern)?.length ?? 0;
+  }
+
+  const total = Object.values(scores).reduce((sum, score) => sum + score, 0);
+  const [best, bestScore] = Object.entries(scores).sort((a, b) => b[1] - a[1])[0];
+  if (bestScore === 0) {
+    return { language: UNKNOWN_LANGUAGE, confidence: 0 };
+  }
+
+  return { language: best, confidence: bestScore / total };
+}
@@ -0,0 +1,286 @@
+/**
+ * LLM providers for the Layer 3 judge
+ *
+ * A minimal chat-completion interface (one system and one user message)
+ * with implementations for the OpenAI API, self-hosted OpenAI-compatible
+ * servers (Ollama, llama.cpp, vLLM, LM Studio), the Anthropic Messages API
+ * and a deterministic fake for tests, plus a factory that builds one from
+ * config.
+ */
+
+import OpenAI from 'openai';
+
+/**
+ * Provider types selectable from configuration
+ */
+export type LLMProviderType = 'openai' | 'openai-compatible' | 'anthropic';
+
+export const LLM_PROVIDER_TYPES: LLMProviderType[] = ['openai', 'openai-compatible', 'anthropic'];
+
+/**
+ * A single chat completion
+ */
+export interface LLMCompletionRequest {
+  system: string;
+  user: string;
+  /** Maximum tokens in the answer (default: the provider's) */
+  maxTokens?: number;
+  /** Abort the request after this many milliseconds (default: the provider's) */
+  timeoutMs?: number;
+  temperature?: number;
+  /** JSON schema the answer must follow, for providers with structured output */
+  jsonSchema?: { name: string; schema: Record<string, unknown> };
+}
+
+/**
+ * A chat model the judge can query
+ */
+export interface LLMProvider {
+  /** Provider identifier (e.g., 'openai', 'anthropic') */
+  readonly name: string;
+  /** Model answering the requests */
+  readonly model: string;
+  /** Answer the request, returning the model's text */
+  complete(request: LLMCompletionRequest): Promise<string>;
+}
+
+/**
+ * Configuration for building an LLM provider
+ */
+export interface LLMProviderConfig {
+  /** Which provider implementation to use */
+  provider: LLMProviderType;
+  /** Model name (provider default if omitted) */
+  model?: string;
+  /** Base URL for OpenAI-compatible servers (e.g., http://localhost:11434/v1) or an API proxy */
+  baseURL?: string;
+  /** API key (optional for most self-hosted servers) */
+  apiKey?: string;
+  /** Default request timeout in milliseconds */
+  timeoutMs?: number;
+  /** Default maximum answer tokens */
+  maxTokens?: number;
+}
+
+/**
+ * Default request timeout (ms)
+ */
+export const DEFAULT_LLM_TIMEOUT_MS = 30_000;
+
+/**
+ * Default maximum answer tokens
+ */
+export const DEFAULT_LLM_MAX_TOKENS = 500;
+
+/**
+ * LLM provider backed by the OpenAI chat completions API
+ */
+export class OpenAILLMProvider implements LLMProvider {
+  readonly name: string = 'openai';
+  readonly model: string;
+  protected client: OpenAI;
+  /** Whether to ask for schema-constrained output when a schema is given */
+  protected structuredOutput = true;
+  private timeoutMs: number;
+  private maxTokens: number;
+
+  constructor(options: {
+    apiKey: string;
+    model?: string;
+    baseURL?: string;
+    timeoutMs?: number;
+    maxTokens?: number;
+  }) {
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+    this.model = options.model ?? 'gpt-4o-mini';
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_LLM_TIMEOUT_MS;
+    this.maxTokens = options.maxTokens ?? DEFAULT_LLM_MAX_TOKENS;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.system },
+        { role: 'user', content: request.user },
+      ],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens ?? this.maxTokens,
+      ...(this.structuredOutput && request.jsonSchema
+        ? { response_format: { type: 'json_schema' as const, json_schema: { ...request.jsonSchema, strict: true } } }
+        : {}),
+    }, { timeout: request.timeoutMs ?? this.timeoutMs });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('Empty response from LLM');
+    }
+    return content;
+  }
+}
+
+/**
+ * LLM provider for any server exposing the OpenAI chat completions endpoint
+ *
+ * Structured output is requested by default (Ollama, llama.cpp and vLLM
+ * support it); servers that reject response_format can turn it off, in
+ * which case the prompt alone asks for JSON.
+ */
+export class OpenAICompatibleLLMProvider extends OpenAILLMProvider {
+  readonly name = 'openai-compatible';
+
+  constructor(options: {
+    baseURL: string;
+    model: string;
+    apiKey?: string;
+    timeoutMs?: number;
+    maxTokens?: number;
+    /** Send response_format with a JSON schema (default: true) */
+    structuredOutput?: boolean;
+  }) {
+    super({
+      // The SDK requires a key even when the server ignores it
+      apiKey: options.apiKey ?? 'not-needed',
+      model: options.model,
+      baseURL: options.baseURL,
+      timeoutMs: options.timeoutMs,
+      maxTokens: options.maxTokens,
+    });
+    this.structuredOutput = options.structuredOutput ?? true;
+  }
+}
+
+/**
+ * LLM provider backed by the Anthropic Messages API
+ *
+ * The API has no response_format, so a JSON schema is not enforced; the
+ * judge prompt asks for JSON and answers are validated either way.
+ */
+export class AnthropicLLMProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  readonly model: string;
+  private apiKey: string;
+  private baseURL: string;
+  private timeoutMs: number;
+  private maxTokens: number;
+
+  constructor(options: {
+    apiKey: string;
+    model?: string;
+    baseURL?: string;
+    timeoutMs?: number;
+    maxTokens?: number;
+  }) {
+    this.apiKey = options.apiKey;
+    this.model = options.model ?? 'claude-3-5-haiku-latest';
+    this.baseURL = (options.baseURL ?? 'https://api.anthropic.com').replace(/\/+$/, '');
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_LLM_TIMEOUT_MS;
+    this.maxTokens = options.maxTokens ?? DEFAULT_LLM_MAX_TOKENS;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    const response = await fetch(`${this.baseURL}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        system: request.system,
+        messages: [{ role: 'user', content: request.user }],
+        max_tokens: request.maxTokens ?? this.maxTokens,
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      }),
+      signal: AbortSignal.timeout(request.timeoutMs ?? this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Anthropic API error: ${response.status} ${response.statusText}`);
+    }
+
+    const body = await response.json() as { content?: Array<{ type: string; text?: string }> };
+    const content = (body.content ?? [])
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text ?? '')
+      .join('');
+    if (!content) {
+      throw new Error('Empty response from LLM');
+    }
+    return content;
+  }
+}
+
+/**
+ * Deterministic LLM provider for tests
+ *
+ * Answers with a fixed text or whatever the given function returns for
+ * the request. Records every request it is asked to complete.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = 'fake';
+  readonly model: string;
+  /** Requests passed to complete(), in call order */
+  readonly calls: LLMCompletionRequest[] = [];
+  private answer: (request: LLMCompletionRequest) => string | Promise<string>;
+
+  constructor(
+    answer: string | ((request: LLMCompletionRequest) => string | Promise<string>),
+    options: { model?: string } = {}
+  ) {
+    this.answer = typeof answer === 'string' ? () => answer : answer;
+    this.model = options.model ?? 'fake';
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    this.calls.push({ ...request });
+    return this.answer(request);
+  }
+}
+
+/**
+ * Create an LLM provider from configuration
+ *
+ * Returns null when the OpenAI or Anthropic provider is selected without
+ * an API key, in which case the external Layer 3 judge is unavailable.
+ */
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider | null {
+  switch (config.provider) {
+    case 'openai-compatible':
+      if (!config.baseURL || !config.model) {
+        throw new Error('openai-compatible LLM provider requires baseURL and model');
+      }
+      return new OpenAICompatibleLLMProvider({
+        baseURL: config.baseURL,
+        model: config.model,
+        apiKey: config.apiKey,
+        timeoutMs: config.timeoutMs,
+        maxTokens: config.maxTokens,
+      });
+    case 'anthropic':
+      if (!config.apiKey) {
+        return null;
+      }
+      return new AnthropicLLMProvider({
+        apiKey: config.apiKey,
+        model: config.model,
+        baseURL: config.baseURL,
+        timeoutMs: config.timeoutMs,
+        maxTokens: config.maxTokens,
+      });
+    case 'openai':
+      if (!config.apiKey) {
+        return null;
+      }
+      return new OpenAILLMProvider({
+        apiKey: config.apiKey,
+        model: config.model,
+        baseURL: config.baseURL,
+        timeoutMs: config.timeoutMs,
+        maxTokens: config.maxTokens,
+      });
+    default:
+      throw new Error(`Unknown LLM provider: ${String(config.provider)}`);
+  }
+}
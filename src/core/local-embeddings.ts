@@ -0,0 +1,147 @@
+/**
+ * Local embedding provider
+ *
+ * Deterministic hashed n-gram vectorizer used for Layer 2 when no
+ * embedding API is available (air-gapped agents, no OPENAI_API_KEY).
+ * Word unigrams, word bigrams and character trigrams are hashed into a
+ * fixed-size signed vector, so similar wording yields similar vectors
+ * without any model download or network access.
+ */
+
+import type { EmbeddingProvider } from './embeddings.js';
+
+/**
+ * Common English words that carry little signal for attack matching
+ */
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have',
+  'i', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the',
+  'their', 'them', 'then', 'there', 'these', 'this', 'to', 'was', 'we', 'were',
+  'will', 'with', 'you', 'your',
+]);
+
+/**
+ * Default vector dimension for the local provider
+ */
+export const LOCAL_EMBEDDING_DIMENSIONS = 1024;
+
+/**
+ * Scale applied to raw cosine similarity so hashed n-gram scores land on
+ * the range the Layer 2 trust thresholds were tuned for. Lexical vectors
+ * rarely exceed 0.5 similarity for paraphrased attacks.
+ */
+export const LOCAL_SIMILARITY_SCALE = 2.2;
+
+/**
+ * Feature weights by n-gram type
+ */
+const WEIGHTS = {
+  unigram: 1.0,
+  bigram: 0.7,
+  trigram: 0.25,
+};
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Split text into lowercase word tokens
+ */
+function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}_]+/u)
+    .filter((token) => token.length > 0);
+}
+
+/**
+ * Offline embedding provider based on feature hashing
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  readonly model: string;
+  readonly dimensions: number;
+
+  constructor(options: { dimensions?: number } = {}) {
+    this.dimensions = options.dimensions ?? LOCAL_EMBEDDING_DIMENSIONS;
+    this.model = `hashed-ngram-${this.dimensions}`;
+  }
+
+  /**
+   * Embed a batch of texts
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.vectorize(text));
+  }
+
+  /**
+   * Map raw cosine similarity onto the Layer 2 threshold scale
+   */
+  calibrateSimilarity(similarity: number): number {
+    return Math.max(0, Math.min(1, similarity * LOCAL_SIMILARITY_SCALE));
+  }
+
+  /**
+   * Build the hashed feature vector for a single text
+   */
+  vectorize(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const features = new Map<string, { weight: number; count: number }>();
+
+    const add = (feature: string, weight: number) => {
+      const existing = features.get(feature);
+      if (existing) {
+        existing.count++;
+      } else {
+        features.set(feature, { weight, count: 1 });
+      }
+    };
+
+    const words = tokenize(text).filter((word) => !STOPWORDS.has(word));
+
+    for (let i = 0; i < words.length; i++) {
+      add(`w:${words[i]}`, WEIGHTS.unigram);
+      if (i + 1 < words.length) {
+        add(`b:${words[i]} ${words[i + 1]}`, WEIGHTS.bigram);
+      }
+
+      const padded = `^${words[i]}$`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        add(`c:${padded.substring(j, j + 3)}`, WEIGHTS.trigram);
+      }
+    }
+
+    for (const [feature, { weight, count }] of features) {
+      const hash = fnv1a(feature);
+      const index = hash % this.dimensions;
+      // Use the top bit as a sign to reduce collision bias
+      const sign = hash & 0x80000000 ? -1 : 1;
+      // Sublinear term frequency so repeated words don't dominate
+      vector[index] += sign * weight * (1 + Math.log(count));
+    }
+
+    let norm = 0;
+    for (const value of vector) {
+      norm += value * value;
+    }
+    norm = Math.sqrt(norm);
+
+    if (norm > 0) {
+      for (let i = 0; i < vector.length; i++) {
+        vector[i] /= norm;
+      }
+    }
+
+    return vector;
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Localized detection packs
+ *
+ * Layer 1 patterns and Layer 2 exemplars for the most common non-English
+ * languages. Pattern and exemplar categories match the English sets, so
+ * results read the same regardless of the language of the attack.
+ */
+
+import type { AttackExemplar } from '../exemplars.js';
+import type { LocalePack } from './types.js';
+import { es } from './es.js';
+import { fr } from './fr.js';
+import { de } from './de.js';
+import { pt } from './pt.js';
+import { it } from './it.js';
+import { ru } from './ru.js';
+import { zh } from './zh.js';
+import { ja } from './ja.js';
+import { ko } from './ko.js';
+import { ar } from './ar.js';
+
+export type { LocalePack } from './types.js';
+
+/**
+ * Localized packs by language code
+ */
+export const LOCALES: Record<string, LocalePack> = { es, fr, de, pt, it, ru, zh, ja, ko, ar };
+
+/**
+ * Languages with a localized pack
+ */
+export const SUPPORTED_LANGUAGES = Object.keys(LOCALES);
+
+/**
+ * Get the localized attack exemplars for a language (empty if unsupported)
+ */
+export function getLocaleExemplars(language: string): AttackExemplar[] {
+  const pack = LOCALES[language];
+  if (!pack) return [];
+  return pack.exemplars.map((e) => ({ ...e, source: `locale:${language}` }));
+}
@@ -0,0 +1,17 @@
+import type { AttackExemplar } from '../exemplars.js';
+
+/**
+ * Localized Layer 1 patterns and Layer 2 exemplars for one language
+ * Pattern categories use the same names as INSPECTION_TRIGGERS, and
+ * exemplar categories the same names as ATTACK_EXEMPLARS.
+ */
+export interface LocalePack {
+  /** ISO 639-1 code */
+  language: string;
+  /** English name of the language */
+  name: string;
+  /** Inspection triggers by category */
+  patterns: Record<string, RegExp[]>;
+  /** Attack exemplars in this language */
+  exemplars: AttackExemplar[];
+}
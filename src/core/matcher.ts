@@ -0,0 +1,653 @@
+/**
+ * Layer 1 matcher
+ *
+ * Compiles a rule set into a single scanner instead of running every regex
+ * over the whole input:
+ *
+ * 1. Each regex is analyzed for literal anchors: strings one of which any
+ *    match must contain (e.g. "ignore" for /\bignore\s+(all\s+)?previous/).
+ * 2. All anchors go into one Aho-Corasick automaton that scans the
+ *    case-folded input once.
+ * 3. Only rules whose anchors were seen are confirmed, by running their
+ *    regex on windows around the anchor hits, sized to cover the longest
+ *    match the regex allows. Rules that can match unbounded text (\s+, .*,
+ *    {n,}) and rules without usable anchors run on the whole input.
+ *
+ * Inputs are capped at maxInputLength and confirmation stops once the time
+ * budget is spent (checked between regex runs; a single run can't be
+ * interrupted); both are reported so callers can tell a partial scan
+ * from a clean one. Nested unbounded quantifiers such as (a+)+, the usual
+ * cause of catastrophic backtracking, are detected by analyzePattern and
+ * rejected in rule files.
+ */
+
+import type { PatternMatch, TriggerPattern } from './patterns.js';
+
+/**
+ * Size and time limits for one scan
+ */
+export interface MatcherOptions {
+  /** Characters scanned per input; the rest is ignored (default: 1,000,000) */
+  maxInputLength?: number;
+  /** Time after which remaining rules are skipped (default: 250ms) */
+  timeBudgetMs?: number;
+  /** Minimum characters of context around an anchor hit given to the regex (default: 512) */
+  windowSize?: number;
+  /** Offsets reported per rule (default: 100) */
+  maxMatchesPerRule?: number;
+}
+
+export const DEFAULT_MATCHER_OPTIONS: Required<MatcherOptions> = {
+  maxInputLength: 1_000_000,
+  timeBudgetMs: 250,
+  windowSize: 512,
+  maxMatchesPerRule: 100,
+};
+
+/**
+ * Outcome of scanning one input
+ */
+export interface MatcherResult {
+  matches: PatternMatch[];
+  /** Input was longer than maxInputLength */
+  truncated: boolean;
+  /** Time budget ran out before all rules were checked */
+  timedOut: boolean;
+}
+
+/**
+ * What analyzePattern learned about a regex
+ */
+export interface PatternAnalysis {
+  /** Case-folded strings one of which every match contains (null if none are usable) */
+  literals: string[] | null;
+  /** Pattern nests unbounded quantifiers, e.g. (a+)+ or (\w*\s?)* */
+  nestedQuantifier: boolean;
+  /** Longest match in UTF-16 code units (Infinity if unbounded or unknown) */
+  maxLength: number;
+}
+
+/** Most strings tracked for a sub-expression that matches a finite literal set */
+const MAX_EXACT = 32;
+
+/** Shortest anchor worth prefiltering on */
+const MIN_LITERAL_LENGTH = 2;
+
+/** Anchor hits recorded per literal before the rule falls back to a full scan */
+const MAX_HITS_PER_LITERAL = 10_000;
+
+/**
+ * Regex fragment summary
+ * exact: every string the fragment can match, when that is a small finite set
+ * req: strings one of which every match of the fragment contains
+ * max: longest string the fragment can match, in code units
+ */
+interface Fragment {
+  exact: string[] | null;
+  req: string[] | null;
+  unbounded: boolean;
+  nested: boolean;
+  max: number;
+}
+
+const EMPTY: Fragment = { exact: [''], req: null, unbounded: false, nested: false, max: 0 };
+/** One character, which may be a surrogate pair */
+const ANY: Fragment = { exact: null, req: null, unbounded: false, nested: false, max: 2 };
+/** Text of unknown length (e.g. a backreference) */
+const UNKNOWN: Fragment = { ...ANY, max: Infinity };
+
+const CONTROL_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', f: '\f', v: '\v', '0': '\0' };
+
+/**
+ * Case-fold a single character the way the prefilter compares text
+ */
+function foldChar(ch: string): string {
+  const folded = ch.toUpperCase().toLowerCase();
+  if (folded.length === ch.length) return folded;
+  const lower = ch.toLowerCase();
+  return lower.length === ch.length ? lower : ch;
+}
+
+/**
+ * Case-fold text without changing its length (so offsets stay valid)
+ */
+export function foldCase(text: string): string {
+  const folded = text.toUpperCase().toLowerCase();
+  if (folded.length === text.length) return folded;
+  let out = '';
+  for (const ch of text) out += foldChar(ch);
+  return out;
+}
+
+function literal(ch: string): Fragment {
+  return { exact: [foldChar(ch)], req: null, unbounded: false, nested: false, max: ch.length };
+}
+
+function minLength(strings: string[]): number {
+  return Math.min(...strings.map((s) => s.length));
+}
+
+/**
+ * Strings that every match of the fragment contains (one of)
+ */
+function requirement(fragment: Fragment): string[] | null {
+  if (fragment.req) return fragment.req;
+  if (fragment.exact && minLength(fragment.exact) > 0) return fragment.exact;
+  return null;
+}
+
+function cross(a: string[], b: string[]): string[] {
+  return [...new Set(a.flatMap((x) => b.map((y) => x + y)))];
+}
+
+/**
+ * Pick the most selective requirement: longest shortest string, then fewest strings
+ */
+function bestRequirement(candidates: string[][]): string[] | null {
+  let best: string[] | null = null;
+  for (const candidate of candidates) {
+    if (candidate.length === 0 || minLength(candidate) === 0) continue;
+    if (!best || minLength(candidate) > minLength(best) ||
+        (minLength(candidate) === minLength(best) && candidate.length < best.length)) {
+      best = candidate;
+    }
+  }
+  return best;
+}
+
+function combineSequence(items: Fragment[]): Fragment {
+  const candidates: string[][] = [];
+  let run: string[] = [''];
+  let allExact = true;
+
+  for (const item of items) {
+    if (item.exact && run.length * item.exact.length <= MAX_EXACT) {
+      run = cross(run, item.exact);
+      continue;
+    }
+    allExact = false;
+    candidates.push(run);
+    if (item.exact) {
+      run = item.exact;
+    } else {
+      const req = requirement(item);
+      if (req) candidates.push(req);
+      run = [''];
+    }
+  }
+  candidates.push(run);
+
+  return {
+    exact: allExact ? run : null,
+    req: bestRequirement(candidates),
+    unbounded: items.some((i) => i.unbounded),
+    nested: items.some((i) => i.nested),
+    max: items.reduce((sum, i) => sum + i.max, 0),
+  };
+}
+
+function combineAlternatives(alternatives: Fragment[]): Fragment {
+  const exact = alternatives.every((a) => a.exact)
+    ? [...new Set(alternatives.flatMap((a) => a.exact!))]
+    : null;
+  const reqs = alternatives.map(requirement);
+
+  return {
+    exact: exact && exact.length <= MAX_EXACT ? exact : null,
+    req: reqs.every((r) => r) ? [...new Set(reqs.flatMap((r) => r!))] : null,
+    unbounded: alternatives.some((a) => a.unbounded),
+    nested: alternatives.some((a) => a.nested),
+    max: Math.max(...alternatives.map((a) => a.max)),
+  };
+}
+
+/**
+ * Recursive-descent reader for JavaScript regex source
+ * Only tracks what the prefilter needs; anything it does not understand
+ * is treated as matching arbitrary text.
+ */
+class PatternReader {
+  private pos = 0;
+
+  constructor(private readonly src: string) {}
+
+  read(): Fragment {
+    const fragment = this.alternation();
+    if (this.pos < this.src.length) {
+      throw new Error(`Unexpected "${this.src[this.pos]}" at ${this.pos}`);
+    }
+    return fragment;
+  }
+
+  private alternation(): Fragment {
+    const alternatives = [this.sequence()];
+    while (this.src[this.pos] === '|') {
+      this.pos++;
+      alternatives.push(this.sequence());
+    }
+    return alternatives.length === 1 ? alternatives[0] : combineAlternatives(alternatives);
+  }
+
+  private sequence(): Fragment {
+    const items: Fragment[] = [];
+    while (this.pos < this.src.length && this.src[this.pos] !== '|' && this.src[this.pos] !== ')') {
+      items.push(this.quantified(this.atom()));
+    }
+    return combineSequence(items);
+  }
+
+  private atom(): Fragment {
+    const ch = this.src[this.pos++];
+    switch (ch) {
+      case '(':
+        return this.group();
+      case '[':
+        return this.characterClass();
+      case '\\':
+        return this.escape();
+      case '.':
+        return ANY;
+      case '^':
+      case '$':
+        return EMPTY;
+      default:
+        return literal(ch);
+    }
+  }
+
+  private group(): Fragment {
+    let lookaround = false;
+    if (this.src[this.pos] === '?') {
+      const next = this.src[this.pos + 1];
+      if (next === ':') {
+        this.pos += 2;
+      } else if (next === '=' || next === '!') {
+        this.pos += 2;
+        lookaround = true;
+      } else if (next === '<' && (this.src[this.pos + 2] === '=' || this.src[this.pos + 2] === '!')) {
+        this.pos += 3;
+        lookaround = true;
+      } else if (next === '<') {
+        this.pos = this.src.indexOf('>', this.pos) + 1;
+      }
+    }
+
+    const inner = this.alternation();
+    if (this.src[this.pos] !== ')') {
+      throw new Error('Unterminated group');
+    }
+    this.pos++;
+
+    // Lookarounds consume nothing, so they add no literal to the match
+    return lookaround ? { ...EMPTY, nested: inner.nested } : inner;
+  }
+
+  private characterClass(): Fragment {
+    let simple = this.src[this.pos] !== '^';
+    if (!simple) this.pos++;
+    const chars: string[] = [];
+
+    while (this.pos < this.src.length && this.src[this.pos] !== ']') {
+      let ch = this.src[this.pos++];
+      if (ch === '\\') {
+        const escaped = this.src[this.pos++];
+        if (escaped in CONTROL_ESCAPES) {
+          ch = CONTROL_ESCAPES[escaped];
+        } else if (/[A-Za-z0-9]/.test(escaped)) {
+          this.skipEscapeBody(escaped);
+          simple = false;
+        } else {
+          ch = escaped;
+        }
+      }
+      if (this.src[this.pos] === '-' && this.pos + 1 < this.src.length && this.src[this.pos + 1] !== ']') {
+        simple = false;
+        this.pos++;
+        this.pos += this.src[this.pos] === '\\' ? 2 : 1;
+      }
+      chars.push(foldChar(ch));
+    }
+    if (this.src[this.pos] !== ']') {
+      throw new Error('Unterminated character class');
+    }
+    this.pos++;
+
+    const unique = [...new Set(chars)];
+    return simple && unique.length > 0 && unique.length <= 8
+      ? { exact: unique, req: null, unbounded: false, nested: false, max: 2 }
+      : ANY;
+  }
+
+  private escape(): Fragment {
+    const ch = this.src[this.pos++];
+    if (ch === undefined) throw new Error('Trailing backslash');
+    if (ch === 'b' || ch === 'B') return EMPTY;
+    if (ch in CONTROL_ESCAPES) return literal(CONTROL_ESCAPES[ch]);
+    if (ch === 'x' && /^[0-9a-fA-F]{2}$/.test(this.src.substr(this.pos, 2))) {
+      this.pos += 2;
+      return literal(String.fromCharCode(parseInt(this.src.substr(this.pos - 2, 2), 16)));
+    }
+    if (ch === 'u' && /^[0-9a-fA-F]{4}$/.test(this.src.substr(this.pos, 4))) {
+      this.pos += 4;
+      return literal(String.fromCharCode(parseInt(this.src.substr(this.pos - 4, 4), 16)));
+    }
+    if (/[A-Za-z0-9]/.test(ch)) {
+      // Classes (\d, \w, \s), properties, backreferences and the like
+      this.skipEscapeBody(ch);
+      return /[1-9k]/.test(ch) ? UNKNOWN : ANY;
+    }
+    return literal(ch);
+  }
+
+  private skipEscapeBody(ch: string): void {
+    if ((ch === 'p' || ch === 'P' || ch === 'u') && this.src[this.pos] === '{') {
+      this.pos = this.src.indexOf('}', this.pos) + 1;
+    } else if (ch === 'k' && this.src[this.pos] === '<') {
+      this.pos = this.src.indexOf('>', this.pos) + 1;
+    } else if (ch === 'x') {
+      this.pos += 2;
+    } else if (ch === 'u') {
+      this.pos += 4;
+    } else if (ch === 'c') {
+      this.pos += 1;
+    } else if (/[1-9]/.test(ch)) {
+      while (/[0-9]/.test(this.src[this.pos] ?? '')) this.pos++;
+    }
+  }
+
+  private quantified(atom: Fragment): Fragment {
+    const ch = this.src[this.pos];
+    let min: number;
+    let max: number;
+
+    if (ch === '*' || ch === '+' || ch === '?') {
+      this.pos++;
+      min = ch === '+' ? 1 : 0;
+      max = ch === '?' ? 1 : Infinity;
+    } else if (ch === '{') {
+      const match = /^\{(\d+)(,(\d*))?\}/.exec(this.src.slice(this.pos));
+      if (!match) return atom;
+      this.pos += match[0].length;
+      min = parseInt(match[1], 10);
+      max = match[2] === undefined ? min : match[3] === '' ? Infinity : parseInt(match[3], 10);
+    } else {
+      return atom;
+    }
+    if (this.src[this.pos] === '?') this.pos++; // lazy
+
+    const unbounded = max === Infinity;
+    const result: Fragment = {
+      exact: null,
+      req: null,
+      unbounded: atom.unbounded || unbounded,
+      nested: atom.nested || (unbounded && atom.unbounded),
+      max: atom.max === 0 ? 0 : atom.max * max,
+    };
+
+    if (min === 0 && max === 1) {
+      result.exact = atom.exact ? [...new Set([...atom.exact, ''])] : null;
+    } else if (min >= 1) {
+      result.req = requirement(atom);
+      if (min === max && atom.exact && atom.exact.length ** min <= MAX_EXACT) {
+        result.exact = Array.from({ length: min }).reduce<string[]>((acc) => cross(acc, atom.exact!), ['']);
+      }
+    }
+    return result;
+  }
+}
+
+/**
+ * Drop literals that contain another literal of the set (the shorter one always hits too)
+ */
+function minimizeLiterals(literals: string[]): string[] {
+  return literals.filter((literal) => !literals.some((other) => other !== literal && literal.includes(other)));
+}
+
+/**
+ * Find literal anchors and nested quantifiers in a regex
+ */
+export function analyzePattern(pattern: RegExp): PatternAnalysis {
+  try {
+    const fragment = new PatternReader(pattern.source).read();
+    const literals = requirement(fragment);
+    return {
+      literals: literals && minLength(literals) >= MIN_LITERAL_LENGTH ? minimizeLiterals(literals) : null,
+      nestedQuantifier: fragment.nested,
+      maxLength: fragment.max,
+    };
+  } catch {
+    return { literals: null, nestedQuantifier: false, maxLength: Infinity };
+  }
+}
+
+/**
+ * Aho-Corasick automaton over case-folded literals
+ */
+class LiteralAutomaton {
+  private next: Map<number, number>[] = [new Map()];
+  private fail: number[] = [0];
+  private output: number[][] = [[]];
+
+  constructor(private readonly literals: string[]) {
+    literals.forEach((literal, index) => {
+      let state = 0;
+      for (let i = 0; i < literal.length; i++) {
+        const code = literal.charCodeAt(i);
+        let target = this.next[state].get(code);
+        if (target === undefined) {
+          target = this.next.length;
+          this.next.push(new Map());
+          this.fail.push(0);
+          this.output.push([]);
+          this.next[state].set(code, target);
+        }
+        state = target;
+      }
+      this.output[state].push(index);
+    });
+
+    // Breadth-first failure links, merging outputs along them
+    const queue = [...this.next[0].values()];
+    while (queue.length > 0) {
+      const state = queue.shift()!;
+      for (const [code, target] of this.next[state]) {
+        let fallback = this.fail[state];
+        while (fallback !== 0 && !this.next[fallback].has(code)) {
+          fallback = this.fail[fallback];
+        }
+        const candidate = this.next[fallback].get(code);
+        this.fail[target] = candidate !== undefined && candidate !== target ? candidate : 0;
+        this.output[target] = [...this.output[target], ...this.output[this.fail[target]]];
+        queue.push(target);
+      }
+    }
+  }
+
+  /**
+   * End offsets of each literal's occurrences in text (capped per literal)
+   */
+  search(text: string): Map<number, number[]> {
+    const hits = new Map<number, number[]>();
+    let state = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+      while (state !== 0 && !this.next[state].has(code)) {
+        state = this.fail[state];
+      }
+      state = this.next[state].get(code) ?? 0;
+
+      for (const index of this.output[state]) {
+        let ends = hits.get(index);
+        if (!ends) {
+          ends = [];
+          hits.set(index, ends);
+        }
+        if (ends.length <= MAX_HITS_PER_LITERAL) {
+          ends.push(i + 1);
+        }
+      }
+    }
+
+    return hits;
+  }
+
+  literalLength(index: number): number {
+    return this.literals[index].length;
+  }
+}
+
+/**
+ * A rule ready for scanning
+ */
+interface CompiledRule {
+  rule: TriggerPattern;
+  /** Global copy of the rule's regex for collecting every offset */
+  global: RegExp;
+  /** Indices of the rule's anchors in the automaton (null: always confirm on the whole input) */
+  literals: number[] | null;
+  /** Longest match the regex allows (Infinity: confirm on the whole input once an anchor is seen) */
+  maxLength: number;
+}
+
+/**
+ * Precompiled scanner for a fixed rule set
+ */
+export class Layer1Matcher {
+  private compiled: CompiledRule[];
+  private automaton: LiteralAutomaton;
+  private options: Required<MatcherOptions>;
+
+  constructor(patterns: TriggerPattern[], options: MatcherOptions = {}) {
+    this.options = { ...DEFAULT_MATCHER_OPTIONS, ...options };
+
+    const literalIds = new Map<string, number>();
+    this.compiled = patterns.map((rule) => {
+      const { literals, maxLength } = analyzePattern(rule.pattern);
+      const flags = rule.pattern.flags.replace(/[gy]/g, '') + 'g';
+      return {
+        rule,
+        global: new RegExp(rule.pattern.source, flags),
+        literals: literals?.map((literal) => {
+          if (!literalIds.has(literal)) literalIds.set(literal, literalIds.size);
+          return literalIds.get(literal)!;
+        }) ?? null,
+        maxLength,
+      };
+    });
+    this.automaton = new LiteralAutomaton([...literalIds.keys()]);
+  }
+
+  /**
+   * Longest input scanned; anything beyond it is reported as truncated
+   */
+  getMaxInputLength(): number {
+    return this.options.maxInputLength;
+  }
+
+  /**
+   * Scan text, returning one match per rule with every offset it matched at
+   */
+  scan(text: string): MatcherResult {
+    const started = performance.now();
+    const { maxInputLength, timeBudgetMs } = this.options;
+    const truncated = text.length > maxInputLength;
+    const input = truncated ? text.slice(0, maxInputLength) : text;
+    const hits = this.automaton.search(foldCase(input));
+    const matches: PatternMatch[] = [];
+    let timedOut = false;
+
+    const deadline = started + timeBudgetMs;
+
+    for (const compiled of this.compiled) {
+      if (performance.now() > deadline) {
+        timedOut = true;
+        break;
+      }
+
+      const windows = this.getWindows(compiled, hits, input.length);
+      const confirmed = windows.length > 0 ? this.confirm(compiled.global, input, windows, deadline) : null;
+      const offsets = confirmed?.found ?? [];
+      if (confirmed?.timedOut) timedOut = true;
+      if (offsets.length > 0) {
+        const { id, pattern, category, language, severity, weight } = compiled.rule;
+        matches.push({
+          pattern: pattern.source,
+          category,
+          matched: offsets[0].text,
+          language,
+          ruleId: id,
+          severity,
+          weight,
+          offsets: offsets.map(({ start, end }) => ({ start, end })),
+          ...(offsets.length >= this.options.maxMatchesPerRule ? { capped: true } : {}),
+        });
+      }
+    }
+
+    return { matches, truncated, timedOut };
+  }
+
+  /**
+   * Merged [start, end) ranges of input the rule's regex must be run on
+   */
+  private getWindows(compiled: CompiledRule, hits: Map<number, number[]>, length: number): Array<[number, number]> {
+    if (!compiled.literals) return [[0, length]];
+
+    // A match can reach maxLength past either end of its anchor
+    const padding = Math.max(this.options.windowSize, compiled.maxLength);
+    const ranges: Array<[number, number]> = [];
+    for (const index of compiled.literals) {
+      const ends = hits.get(index);
+      if (!ends) continue;
+      if (ends.length > MAX_HITS_PER_LITERAL || padding === Infinity) return [[0, length]];
+      const literalLength = this.automaton.literalLength(index);
+      for (const end of ends) {
+        ranges.push([
+          Math.max(0, end - literalLength - padding),
+          Math.min(length, end + padding),
+        ]);
+      }
+    }
+
+    ranges.sort((a, b) => a[0] - b[0]);
+    const merged: Array<[number, number]> = [];
+    for (const range of ranges) {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([...range]);
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Run a global regex over each window, collecting absolute offsets
+   * Stops early (timedOut) once the deadline passes between runs.
+   */
+  private confirm(
+    regex: RegExp,
+    input: string,
+    windows: Array<[number, number]>,
+    deadline: number
+  ): { found: Array<{ start: number; end: number; text: string }>; timedOut: boolean } {
+    const found: Array<{ start: number; end: number; text: string }> = [];
+
+    for (const [start, end] of windows) {
+      if (performance.now() > deadline) return { found, timedOut: true };
+      const slice = start === 0 && end === input.length ? input : input.slice(start, end);
+      regex.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = regex.exec(slice)) !== null) {
+        found.push({ start: start + match.index, end: start + match.index + match[0].length, text: match[0] });
+        if (found.length >= this.options.maxMatchesPerRule) return { found, timedOut: false };
+        if (match[0] === '') regex.lastIndex++;
+        if (performance.now() > deadline) return { found, timedOut: true };
+      }
+    }
+
+    return { found, timedOut: false };
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * Text normalization and deobfuscation
+ *
+ * Layer 1 regexes and Layer 2 embeddings both see the raw text, so
+ * homoglyphs, zero-width characters, full-width Unicode, leetspeak and
+ * encoded payloads slip past them. This module produces normalized and
+ * decoded variants of the input that are scanned alongside the original.
+ */
+
+/**
+ * A single normalization or decoding step
+ */
+export type NormalizationStep =
+  | 'invisible'
+  | 'unicode'
+  | 'confusables'
+  | 'leetspeak'
+  | 'base64'
+  | 'hex'
+  | 'percent'
+  | 'unicode-escape'
+  | 'htmlEntities';
+
+/**
+ * A normalized or decoded form of the input
+ */
+export interface NormalizedVariant {
+  /** Variant text */
+  text: string;
+  /** Steps applied to the original to produce this variant, in order */
+  transformations: NormalizationStep[];
+}
+
+/**
+ * Normalization options
+ */
+export interface NormalizationOptions {
+  /** Maximum rounds of nested decoding (default: 3) */
+  maxDepth?: number;
+  /** Maximum number of variants returned (default: 8) */
+  maxVariants?: number;
+  /** Also produce a leetspeak-folded variant of the input (default: true) */
+  leetspeak?: boolean;
+  /** Minimum length of a base64, hex or \\u-escaped token worth decoding (default: 16) */
+  minEncodedLength?: number;
+}
+
+/**
+ * Default normalization settings
+ */
+export const DEFAULT_NORMALIZATION: Required<NormalizationOptions> = {
+  maxDepth: 3,
+  maxVariants: 8,
+  leetspeak: true,
+  minEncodedLength: 16,
+};
+
+/**
+ * Zero-width, soft hyphen, bidi control and Unicode tag characters
+ */
+const INVISIBLE_CHARS = /[\u00AD\u180E\u200B-\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFEFF]|[\u{E0000}-\u{E007F}]/gu;
+
+/**
+ * Common Cyrillic and Greek lookalikes of Latin letters
+ */
+const CONFUSABLES: Record<string, string> = {
+  'а': 'a', 'в': 'b', 'е': 'e', 'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o', 'р': 'p', 'с': 'c',
+  'т': 't', 'у': 'y', 'х': 'x', 'і': 'i', 'ј': 'j', 'ѕ': 's', 'ԁ': 'd', 'һ': 'h', 'ӏ': 'l',
+  'А': 'A', 'В': 'B', 'Е': 'E', 'К': 'K', 'М': 'M', 'Н': 'H', 'О': 'O', 'Р': 'P', 'С': 'C',
+  'Т': 'T', 'У': 'Y', 'Х': 'X', 'І': 'I', 'Ј': 'J', 'Ѕ': 'S',
+  'α': 'a', 'ε': 'e', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't', 'υ': 'u',
+  'Α': 'A', 'Β': 'B', 'Ε': 'E', 'Η': 'H', 'Ι': 'I', 'Κ': 'K', 'Μ': 'M', 'Ν': 'N', 'Ο': 'O',
+  'Ρ': 'P', 'Τ': 'T', 'Χ': 'X', 'Υ': 'Y', 'Ζ': 'Z',
+  'ɡ': 'g', 'ɑ': 'a', 'ı': 'i',
+};
+
+const CONFUSABLE_CHARS = new RegExp(`[${Object.keys(CONFUSABLES).join('')}]`, 'g');
+
+/**
+ * Digits and symbols commonly substituted for letters
+ */
+const LEETSPEAK: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's',
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+};
+
+/**
+ * Whether decoded bytes look like text rather than noise
+ */
+function isReadable(text: string): boolean {
+  if (text.length < 4 || text.includes('\uFFFD')) return false;
+  const printable = text.match(/[\x20-\x7E\t\r\n]/g)?.length ?? 0;
+  return printable / text.length >= 0.9 && /[a-z]{2}/i.test(text);
+}
+
+/**
+ * Strip invisible characters, apply NFKC and fold confusable letters
+ */
+export function foldText(text: string): NormalizedVariant {
+  const transformations: NormalizationStep[] = [];
+  let result = text;
+
+  const visible = result.replace(INVISIBLE_CHARS, '');
+  if (visible !== result) {
+    transformations.push('invisible');
+    result = visible;
+  }
+
+  const nfkc = result.normalize('NFKC');
+  if (nfkc !== result) {
+    transformations.push('unicode');
+    result = nfkc;
+  }
+
+  const folded = result.replace(CONFUSABLE_CHARS, (c) => CONFUSABLES[c]);
+  if (folded !== result) {
+    transformations.push('confusables');
+    result = folded;
+  }
+
+  return { text: result, transformations };
+}
+
+/**
+ * Replace leetspeak in words that mix letters with substituted digits/symbols
+ * Only applies when some word has a digit between letters (pr3vious),
+ * so ordinary text like "5pm" or "v2" is left alone, as are long tokens.
+ */
+export function foldLeetspeak(text: string): string {
+  if (!/[A-Za-z][013457]+[A-Za-z]/.test(text)) return text;
+  return text.replace(/[A-Za-z0-9@$]+/g, (word) =>
+    word.length <= 20 && /[A-Za-z]/.test(word) && /[013457@$]/.test(word)
+      ? word.replace(/[013457@$]/g, (c) => LEETSPEAK[c])
+      : word
+  );
+}
+
+/**
+ * Decoders that replace encoded segments in place
+ * Segments that don't decode to readable text are left untouched.
+ */
+const DECODERS: Array<{ step: NormalizationStep; decode: (text: string, minLength: number) => string }> = [
+  {
+    step: 'base64',
+    decode: (text, minLength) =>
+      text.replace(new RegExp(`[A-Za-z0-9+/_-]{${minLength},}={0,2}`, 'g'), (token) => {
+        if (token.replace(/=+$/, '').length % 4 === 1) return token;
+        const decoded = Buffer.from(token, 'base64').toString('utf8');
+        return isReadable(decoded) ? decoded : token;
+      }),
+  },
+  {
+    // Plain hex strings and \xNN escape sequences
+    step: 'hex',
+    decode: (text, minLength) =>
+      text
+        .replace(new RegExp(`\\b(?:[0-9a-fA-F]{2}){${Math.ceil(minLength / 2)},}\\b`, 'g'), (token) => {
+          const decoded = Buffer.from(token, 'hex').toString('utf8');
+          return isReadable(decoded) ? decoded : token;
+        })
+        .replace(/(?:\\x[0-9a-fA-F]{2})+/g, (token) => {
+          const decoded = Buffer.from(token.replace(/\\x/g, ''), 'hex').toString('utf8');
+          return isReadable(decoded) ? decoded : token;
+        }),
+  },
+  {
+    // \uNNNN escape sequences
+    step: 'unicode-escape',
+    decode: (text, minLength) =>
+      text.replace(/(?:\\u[0-9a-fA-F]{4})+/g, (token) => {
+        if (token.length < minLength) return token;
+        // Decoded one code unit at a time: a spread of a long run would overflow the stack
+        let decoded = '';
+        for (let i = 0; i < token.length; i += 6) {
+          decoded += String.fromCharCode(parseInt(token.slice(i + 2, i + 6), 16));
+        }
+        return isReadable(decoded) ? decoded : token;
+      }),
+  },
+  {
+    // Needs several escapes so ordinary URLs (a%20b) don't produce variants
+    step: 'percent',
+    decode: (text) =>
+      (text.match(/%[0-9a-fA-F]{2}/g)?.length ?? 0) < 3 ? text : text.replace(/(?:%[0-9a-fA-F]{2})+/g, (token) => {
+        try {
+          return decodeURIComponent(token);
+        } catch {
+          return token;
+        }
+      }),
+  },
+  {
+    step: 'htmlEntities',
+    decode: (text) =>
+      text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, body: string) => {
+        if (body[0] !== '#') return HTML_ENTITIES[body.toLowerCase()] ?? entity;
+        const code = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+        return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+      }),
+  },
+];
+
+/**
+ * Produce normalized and decoded variants of text
+ * Folding is applied first, then each decoder, repeating on decoded output
+ * up to maxDepth rounds for nested encodings. Leetspeak folding only runs on
+ * the input itself. Variants identical to the input or to each other are dropped.
+ */
+export function getNormalizedVariants(text: string, options: NormalizationOptions = {}): NormalizedVariant[] {
+  const opts = { ...DEFAULT_NORMALIZATION, ...options };
+  const seen = new Set([text]);
+  const variants: NormalizedVariant[] = [];
+
+  const add = (variant: NormalizedVariant): boolean => {
+    if (seen.has(variant.text) || variants.length >= opts.maxVariants) return false;
+    seen.add(variant.text);
+    variants.push(variant);
+    return true;
+  };
+
+  let frontier: NormalizedVariant[] = [{ text, transformations: [] }];
+  for (let depth = 0; depth < opts.maxDepth && frontier.length > 0; depth++) {
+    const next: NormalizedVariant[] = [];
+
+    for (const item of frontier) {
+      const folded = foldText(item.text);
+      const base = { text: folded.text, transformations: [...item.transformations, ...folded.transformations] };
+      add(base);
+
+      for (const { step, decode } of DECODERS) {
+        const decoded = decode(base.text, opts.minEncodedLength);
+        if (decoded === base.text) continue;
+        const variant = { text: decoded, transformations: [...base.transformations, step] };
+        if (add(variant)) next.push(variant);
+      }
+    }
+
+    frontier = next;
+  }
+
+  if (opts.leetspeak) {
+    const folded = foldText(text);
+    const leet = foldLeetspeak(folded.text);
+    if (leet !== folded.text) {
+      add({ text: leet, transformations: [...folded.transformations, 'leetspeak'] });
+    }
+  }
+
+  return variants;
+}
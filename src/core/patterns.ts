@@ -7,12 +7,44 @@
  * - Instruction override patterns
  * - Data exfiltration indicators
  * - Privilege escalation attempts
+ *
+ * English triggers live here; localized triggers for other languages come
+ * from ./locales and share the same category names.
  */
 
+import { LOCALES } from './locales/index.js';
+import type { RuleSeverity } from './rules.js';
+import { Layer1Matcher } from './matcher.js';
+
 export interface PatternMatch {
   pattern: string;
   category: string;
   matched: string;
+  /** Language of the pattern that matched ('en' for the base set) */
+  language?: string;
+  /** Id of the rule that matched */
+  ruleId?: string;
+  /** Severity and confidence weight of the rule (for Layer 1 scoring) */
+  severity?: RuleSeverity;
+  weight?: number;
+  /** Every place the rule matched (up to the matcher's per-rule limit) */
+  offsets?: Array<{ start: number; end: number }>;
+  /** The rule matched more often than the per-rule limit, so offsets lists only the first matches */
+  capped?: boolean;
+}
+
+/**
+ * A single Layer 1 trigger: a regex with a stable id and category
+ */
+export interface TriggerPattern {
+  /** Stable id, e.g. "en.credentialAccess.1" for built-ins */
+  id: string;
+  pattern: RegExp;
+  category: string;
+  language?: string;
+  severity?: RuleSeverity;
+  /** Confidence weight in (0, 1] */
+  weight?: number;
 }
 
 /**
@@ -114,39 +146,50 @@ export const INSPECTION_TRIGGERS: Record<string, RegExp[]> = {
 };
 
 /**
- * Flatten all patterns into a single array for quick iteration
+ * Flatten all patterns (English, then localized) into a single array for quick iteration
+ * Localized patterns are always checked, so a Spanish payload inside an
+ * English page still matches. Ids are "<language>.<category>.<n>" (1-based).
  */
-export const ALL_PATTERNS: { pattern: RegExp; category: string }[] = Object.entries(
-  INSPECTION_TRIGGERS
-).flatMap(([category, patterns]) => patterns.map((pattern) => ({ pattern, category })));
+export const ALL_PATTERNS: (TriggerPattern & { language: string })[] = [
+  ['en', INSPECTION_TRIGGERS] as const,
+  ...Object.values(LOCALES).map((locale) => [locale.language, locale.patterns] as const),
+].flatMap(([language, triggers]) =>
+  Object.entries(triggers).flatMap(([category, patterns]) =>
+    patterns.map((pattern, i) => ({ id: `${language}.${category}.${i + 1}`, pattern, category, language }))
+  )
+);
+
+/** Compiled matchers, per pattern list */
+const matchers = new WeakMap<TriggerPattern[], Layer1Matcher>();
+
+/**
+ * Precompiled matcher for a pattern list (built once per list)
+ */
+export function getLayer1Matcher(patterns: TriggerPattern[] = ALL_PATTERNS): Layer1Matcher {
+  let matcher = matchers.get(patterns);
+  if (!matcher) {
+    matcher = new Layer1Matcher(patterns);
+    matchers.set(patterns, matcher);
+  }
+  return matcher;
+}
 
 /**
  * Layer 1 triage function - checks text against all patterns
  * @param text The text to analyze
+ * @param patterns Patterns to check (default: the built-in set)
  * @returns Array of matched pattern descriptions
  */
-export function layer1Triage(text: string): PatternMatch[] {
-  const matches: PatternMatch[] = [];
-
-  for (const { pattern, category } of ALL_PATTERNS) {
-    const match = text.match(pattern);
-    if (match) {
-      matches.push({
-        pattern: pattern.source,
-        category,
-        matched: match[0],
-      });
-    }
-  }
-
-  return matches;
+export function layer1Triage(text: string, patterns: TriggerPattern[] = ALL_PATTERNS): PatternMatch[] {
+  return getLayer1Matcher(patterns).scan(text).matches;
 }
 
 /**
  * Quick check if any Layer 1 patterns match
  * @param text The text to check
+ * @param patterns Patterns to check (default: the built-in set)
  * @returns True if any pattern matches
  */
-export function hasLayer1Match(text: string): boolean {
-  return ALL_PATTERNS.some(({ pattern }) => pattern.test(text));
+export function hasLayer1Match(text: string, patterns: TriggerPattern[] = ALL_PATTERNS): boolean {
+  return layer1Triage(text, patterns).length > 0;
 }
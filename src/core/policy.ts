@@ -0,0 +1,375 @@
+/**
+ * Policy engine
+ *
+ * Maps detection signals to what happens to a memory write. Rules are
+ * checked in order and the first match decides; unmatched content gets
+ * the default action. A policy file is JSON or YAML:
+ *
+ *   defaultAction: allow
+ *   rules:
+ *     - id: web-exfil
+ *       description: Exfiltration attempts from the web are dropped
+ *       when:
+ *         trustLevel: [external]
+ *         category: [dataExfiltration]
+ *         minScore: 0.6
+ *       action: block
+ *     - id: user-flagged
+ *       when: { trustLevel: user, flagged: true }
+ *       action: allow_with_warning
+ *
+ * User rules are checked before the built-in rules, which quarantine
+ * flagged content and strong anomalies and redact credentials (the
+ * behaviour without a policy). For example, to keep PII from users but
+ * redact it from everyone else:
+ *
+ *     - id: user-pii
+ *       when: { trustLevel: user, secret: pii }
+ *       action: allow
+ *     - id: pii
+ *       when: { secret: pii }
+ *       action: redact
+ */
+
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { TrustLevel, DetectionResult } from './types.js';
+import type { JudgeVerdict } from './judge.js';
+
+export type PolicyAction = 'allow' | 'allow_with_warning' | 'quarantine' | 'block' | 'redact';
+
+export const POLICY_ACTIONS: PolicyAction[] = ['allow', 'allow_with_warning', 'quarantine', 'block', 'redact'];
+
+/**
+ * Conditions a rule matches on; all given conditions must hold
+ */
+export interface PolicyConditions {
+  /** Sources (`*` matches any characters, e.g. "tool:*") */
+  source?: string[];
+  trustLevel?: TrustLevel[];
+  /** Detection categories (Layer 1 categories and the Layer 2 match category); any must be present */
+  category?: string[];
+  minScore?: number;
+  maxScore?: number;
+  /** Whether the detection layers flagged the content */
+  flagged?: boolean;
+  /** Detection stages that flagged the content; any must have */
+  stage?: string[];
+  /** Secret/PII findings: a type (secret, pii) or kind (e.g. aws_access_key); any must be present */
+  secret?: string[];
+  /** Reputation findings: a category (e.g. exfil, tunnel, denylist) or host; any must be present */
+  reputation?: string[];
+  layer3Verdict?: JudgeVerdict[];
+  /** Whether the Layer 3 judge ensemble split between SAFE and unsafe verdicts */
+  judgeDisagreement?: boolean;
+  /** Anomaly conditions never match during the baseline learning period */
+  minAnomalyScore?: number;
+  /** Anomaly signal types (e.g. new_domain); any must be present */
+  anomalySignal?: string[];
+}
+
+/**
+ * A policy rule
+ */
+export interface PolicyRule {
+  id: string;
+  description?: string;
+  when: PolicyConditions;
+  action: PolicyAction;
+  /** 'builtin' or the policy file the rule was loaded from */
+  source: string;
+}
+
+/**
+ * A policy loaded from a file
+ */
+export interface PolicyFile {
+  defaultAction?: PolicyAction;
+  rules: PolicyRule[];
+}
+
+/**
+ * What a policy is evaluated against
+ */
+export interface PolicyInput {
+  detection: DetectionResult;
+  source: string;
+  trustLevel: TrustLevel;
+}
+
+/**
+ * Outcome of evaluating a policy
+ */
+export interface PolicyDecision {
+  action: PolicyAction;
+  /** Rule that fired (null when the default action applied) */
+  ruleId: string | null;
+  reason: string;
+}
+
+/**
+ * Built-in rules: quarantine strong anomalies, judge disagreements and flagged content; redact credentials
+ */
+export const DEFAULT_POLICY_RULES: PolicyRule[] = [
+  {
+    id: 'builtin.anomaly',
+    description: 'Quarantine content far outside the behavioral baseline',
+    when: { minAnomalyScore: 0.7 },
+    action: 'quarantine',
+    source: 'builtin',
+  },
+  {
+    id: 'builtin.judge_disagreement',
+    description: 'Quarantine content the Layer 3 judges split on',
+    when: { judgeDisagreement: true },
+    action: 'quarantine',
+    source: 'builtin',
+  },
+  {
+    id: 'builtin.flagged',
+    description: 'Quarantine content flagged by the detection layers',
+    when: { flagged: true },
+    action: 'quarantine',
+    source: 'builtin',
+  },
+  {
+    id: 'builtin.secrets',
+    description: 'Redact credentials before storing',
+    when: { secret: ['secret'] },
+    action: 'redact',
+    source: 'builtin',
+  },
+];
+
+const LIST_CONDITIONS = ['source', 'trustLevel', 'category', 'stage', 'secret', 'reputation', 'layer3Verdict', 'anomalySignal'] as const;
+const SCORE_CONDITIONS = ['minScore', 'maxScore', 'minAnomalyScore'] as const;
+const BOOLEAN_CONDITIONS = ['flagged', 'judgeDisagreement'] as const;
+const TRUST_LEVELS = Object.values(TrustLevel) as string[];
+const VERDICTS = ['SAFE', 'SUSPICIOUS', 'DANGEROUS'];
+
+/**
+ * Whether an action lets the content through to memory unchanged
+ */
+export function isAllowingAction(action: PolicyAction): boolean {
+  return action === 'allow' || action === 'allow_with_warning';
+}
+
+/**
+ * Detection categories present in a result (Layer 1 categories and the Layer 2 match category)
+ */
+export function getDetectionCategories(detection: DetectionResult): string[] {
+  const categories = detection.layer1.patterns.map((p) => p.split(':')[0]);
+  if (detection.layer2.triggered) {
+    const layer2Category = detection.layer2.aggregateCategory ?? detection.layer2.topMatches?.[0]?.category;
+    if (layer2Category) categories.push(layer2Category);
+  }
+  return [...new Set(categories)];
+}
+
+/**
+ * Match a source against a pattern where `*` matches any characters
+ */
+function matchesSource(pattern: string, source: string): boolean {
+  const escaped = pattern.split('*').map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`, 'i').test(source);
+}
+
+/**
+ * Validate a list condition (a single value is accepted as a one-item list)
+ */
+function validateList(value: unknown, location: string, allowed?: string[]): string[] {
+  const list = Array.isArray(value) ? value : [value];
+  if (list.length === 0 || list.some((v) => typeof v !== 'string' || v.trim() === '')) {
+    throw new Error(`${location}: must be a string or a non-empty list of strings`);
+  }
+  const invalid = allowed ? list.find((v) => !allowed.includes(v)) : undefined;
+  if (invalid !== undefined) {
+    throw new Error(`${location}: "${invalid}" is not one of ${allowed!.join(', ')}`);
+  }
+  return list as string[];
+}
+
+/**
+ * Validate a raw policy rule entry
+ * @throws Error describing the first invalid field
+ */
+export function validatePolicyRule(raw: unknown, source: string, location = 'policy rule'): PolicyRule {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`${location}: expected an object`);
+  }
+
+  const entry = raw as Record<string, unknown>;
+
+  if (typeof entry.id !== 'string' || entry.id.trim() === '') {
+    throw new Error(`${location}: "id" must be a non-empty string`);
+  }
+  const id = entry.id.trim();
+  location = `${location} (${id})`;
+
+  if (!POLICY_ACTIONS.includes(entry.action as PolicyAction)) {
+    throw new Error(`${location}: "action" must be one of ${POLICY_ACTIONS.join(', ')}`);
+  }
+  if (entry.description !== undefined && typeof entry.description !== 'string') {
+    throw new Error(`${location}: "description" must be a string`);
+  }
+
+  const rawWhen = entry.when ?? {};
+  if (typeof rawWhen !== 'object' || Array.isArray(rawWhen)) {
+    throw new Error(`${location}: "when" must be an object`);
+  }
+  const when = rawWhen as Record<string, unknown>;
+  const conditions: PolicyConditions = {};
+
+  for (const key of Object.keys(when)) {
+    if (!([...LIST_CONDITIONS, ...SCORE_CONDITIONS, ...BOOLEAN_CONDITIONS] as string[]).includes(key)) {
+      throw new Error(`${location}: unknown condition "${key}"`);
+    }
+  }
+  for (const key of LIST_CONDITIONS) {
+    if (when[key] === undefined) continue;
+    const allowed = key === 'trustLevel' ? TRUST_LEVELS : key === 'layer3Verdict' ? VERDICTS : undefined;
+    (conditions as Record<string, string[]>)[key] = validateList(when[key], `${location} when.${key}`, allowed);
+  }
+  for (const key of SCORE_CONDITIONS) {
+    if (when[key] === undefined) continue;
+    if (typeof when[key] !== 'number' || when[key] < 0 || when[key] > 1) {
+      throw new Error(`${location}: "when.${key}" must be a number in [0, 1]`);
+    }
+    conditions[key] = when[key] as number;
+  }
+  for (const key of BOOLEAN_CONDITIONS) {
+    if (when[key] === undefined) continue;
+    if (typeof when[key] !== 'boolean') {
+      throw new Error(`${location}: "when.${key}" must be a boolean`);
+    }
+    conditions[key] = when[key] as boolean;
+  }
+
+  return {
+    id,
+    description: entry.description as string | undefined,
+    when: conditions,
+    action: entry.action as PolicyAction,
+    source,
+  };
+}
+
+/**
+ * Load a policy from a JSON or YAML file
+ * @throws Error if the file cannot be read or contains invalid rules
+ */
+export function loadPolicyFile(filePath: string): PolicyFile {
+  let data: unknown;
+  try {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const ext = path.extname(filePath).toLowerCase();
+    data = ext === '.yaml' || ext === '.yml' ? YAML.parse(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to read policy file ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const info = Array.isArray(data) ? { rules: data } : (data ?? {}) as Record<string, unknown>;
+  if (!Array.isArray(info.rules)) {
+    throw new Error(`Invalid policy file ${filePath}: expected a list or an object with "rules"`);
+  }
+  if (info.defaultAction !== undefined && !POLICY_ACTIONS.includes(info.defaultAction as PolicyAction)) {
+    throw new Error(`Invalid policy file ${filePath}: "defaultAction" must be one of ${POLICY_ACTIONS.join(', ')}`);
+  }
+
+  const rules = info.rules.map((raw, i) => validatePolicyRule(raw, filePath, `${filePath} rule #${i + 1}`));
+  const duplicate = rules.find((rule, i) => rules.findIndex((r) => r.id === rule.id) !== i);
+  if (duplicate) {
+    throw new Error(`Invalid policy file ${filePath}: duplicate rule id "${duplicate.id}"`);
+  }
+
+  return {
+    defaultAction: info.defaultAction as PolicyAction | undefined,
+    rules,
+  };
+}
+
+/**
+ * Evaluates policy rules against detection results
+ */
+export class PolicyEngine {
+  private rules: PolicyRule[];
+  private defaultAction: PolicyAction;
+
+  constructor(options?: { rules?: PolicyRule[]; defaultAction?: PolicyAction }) {
+    this.rules = [...options?.rules ?? [], ...DEFAULT_POLICY_RULES];
+    this.defaultAction = options?.defaultAction ?? 'allow';
+  }
+
+  /**
+   * Decide what to do with content; the first matching rule wins
+   */
+  evaluate(input: PolicyInput): PolicyDecision {
+    for (const rule of this.rules) {
+      if (this.matches(rule.when, input)) {
+        return { action: rule.action, ruleId: rule.id, reason: this.describe(rule, input) };
+      }
+    }
+
+    return { action: this.defaultAction, ruleId: null, reason: 'No policy rule matched' };
+  }
+
+  /**
+   * Rules in evaluation order (user rules, then built-in)
+   */
+  getRules(): PolicyRule[] {
+    return [...this.rules];
+  }
+
+  getDefaultAction(): PolicyAction {
+    return this.defaultAction;
+  }
+
+  /**
+   * Whether all of a rule's conditions hold
+   */
+  private matches(when: PolicyConditions, { detection, source, trustLevel }: PolicyInput): boolean {
+    const anomaly = detection.anomaly && !detection.anomaly.inLearningPeriod ? detection.anomaly : null;
+
+    if (when.source && !when.source.some((pattern) => matchesSource(pattern, source))) return false;
+    if (when.trustLevel && !when.trustLevel.includes(trustLevel)) return false;
+    if (when.category) {
+      const categories = getDetectionCategories(detection);
+      if (!when.category.some((c) => categories.includes(c))) return false;
+    }
+    if (when.minScore !== undefined && detection.score < when.minScore) return false;
+    if (when.maxScore !== undefined && detection.score > when.maxScore) return false;
+    if (when.flagged !== undefined && when.flagged === detection.passed) return false;
+    if (when.judgeDisagreement !== undefined && when.judgeDisagreement !== (detection.layer3?.disagreement ?? false)) return false;
+    if (when.stage && !when.stage.some((name) => detection.stages?.[name]?.flagged)) return false;
+    if (when.secret && !detection.secrets?.some((f) => when.secret!.includes(f.type) || when.secret!.includes(f.kind))) {
+      return false;
+    }
+    if (when.reputation && !detection.reputation?.some((f) => when.reputation!.includes(f.category) || when.reputation!.includes(f.host))) {
+      return false;
+    }
+    if (when.layer3Verdict && !when.layer3Verdict.includes(detection.layer3?.verdict as JudgeVerdict)) return false;
+    if (when.minAnomalyScore !== undefined && (!anomaly || anomaly.score < when.minAnomalyScore)) return false;
+    if (when.anomalySignal && !anomaly?.signals.some((s) => when.anomalySignal!.includes(s.type))) return false;
+    return true;
+  }
+
+  /**
+   * Explain why a rule fired
+   */
+  private describe(rule: PolicyRule, { detection }: PolicyInput): string {
+    if (rule.id === 'builtin.anomaly') {
+      return `Anomaly: ${detection.anomaly!.signals.map((s) => s.description).join(', ')}`;
+    }
+    if (rule.id === 'builtin.flagged') {
+      return detection.reason;
+    }
+    if (rule.id === 'builtin.judge_disagreement') {
+      return `Layer 3 judges disagree: ${detection.layer3!.reasoning}`;
+    }
+    if (rule.id === 'builtin.secrets') {
+      return `Credentials found: ${[...new Set(detection.secrets!.filter((f) => f.type === 'secret').map((f) => f.kind))].join(', ')}`;
+    }
+    return rule.description ?? `Policy rule "${rule.id}" matched`;
+  }
+}
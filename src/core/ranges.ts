@@ -0,0 +1,41 @@
+/**
+ * Offset ranges
+ *
+ * Overlap checks for scanners whose findings must not overlap (secrets,
+ * reputation indicators). Each detector's matches are merged into the
+ * ranges kept so far in one sweep over both lists, so text packed with
+ * matches is scanned in linear time per detector.
+ */
+
+/**
+ * A [start, end) range of offsets in the scanned text
+ */
+export interface OffsetRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Merge candidates into kept ranges, skipping any that overlap a range or fail accept
+ * kept must be sorted and non-overlapping, and candidates must come in
+ * start order (as regex matches do). Returns a new sorted list.
+ */
+export function mergeDisjoint<T extends OffsetRange>(
+  kept: T[],
+  candidates: Iterable<T>,
+  accept: (candidate: T) => boolean = () => true
+): T[] {
+  const merged: T[] = [];
+  let i = 0;
+
+  for (const candidate of candidates) {
+    while (i < kept.length && kept[i].end <= candidate.start) merged.push(kept[i++]);
+    if (i < kept.length && kept[i].start < candidate.end) continue;
+    const last = merged[merged.length - 1];
+    if (last && last.end > candidate.start) continue;
+    if (accept(candidate)) merged.push(candidate);
+  }
+  while (i < kept.length) merged.push(kept[i++]);
+
+  return merged;
+}
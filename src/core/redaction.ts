@@ -0,0 +1,173 @@
+/**
+ * Redaction
+ *
+ * Removes or masks the parts of a memory that detection flagged, so the
+ * rest of a mostly useful note can still be stored. A Layer 1 match is
+ * widened to its sentence by default, since the matched phrase alone
+ * ("ignore previous instructions") rarely covers the injected instruction;
+ * flagged chunks and hidden-content spans are cut as reported. Secrets and
+ * PII are always masked in place ([REDACTED:<kind>]) so the surrounding
+ * sentence still reads. A finding that can't be located (a match seen
+ * only in a normalized variant, offsets past the per-rule limit, a partial
+ * scan, a Layer 2 hit on the text as a whole, or flagged hidden content
+ * with no span marking it) makes the redaction incomplete, and the caller
+ * should quarantine the whole text instead.
+ */
+
+import type { DetectionResult } from './types.js';
+import { splitSentences } from './chunking.js';
+
+/**
+ * Redaction options
+ */
+export interface RedactionOptions {
+  /** Cut flagged regions out, or replace them with the mask (default: remove) */
+  mode?: 'remove' | 'mask';
+  /** Replacement text in mask mode (default: [REDACTED]) */
+  mask?: string;
+  /** Widen Layer 1 matches to their sentence, or cut only the match (default: sentence) */
+  expand?: 'sentence' | 'match';
+}
+
+/**
+ * Default redaction settings
+ */
+export const DEFAULT_REDACTION: Required<RedactionOptions> = {
+  mode: 'remove',
+  mask: '[REDACTED]',
+  expand: 'sentence',
+};
+
+/**
+ * A region cut from the original text
+ */
+export interface RedactedFragment {
+  /** Start offset in the original text */
+  start: number;
+  /** End offset in the original text (exclusive) */
+  end: number;
+  text: string;
+  /** Findings that covered the region */
+  reasons: string[];
+  /** Text put in place of the region (masked secrets; otherwise the mode decides) */
+  replacement?: string;
+}
+
+/**
+ * Sanitized text with the regions that were cut
+ */
+export interface RedactionResult {
+  text: string;
+  /** Cut regions in offset order (empty when nothing could be located) */
+  fragments: RedactedFragment[];
+  /** Whether every finding was located; when false, flagged content may remain in text */
+  complete: boolean;
+}
+
+/**
+ * Why some finding in a detection result has no location in the input (null if all do)
+ */
+export function findUnlocatedFinding(detection: DetectionResult): string | null {
+  const { layer1, layer2 } = detection;
+  if (layer1.truncated) return 'Layer 1 scanned only part of the input';
+  if (layer1.timedOut) return 'Layer 1 ran out of time';
+  if (layer1.unlocated) return 'Layer 1 matched text with no offsets in the input';
+  if (layer2.triggered && !detection.spans?.some((span) => span.flagged)) {
+    return 'Layer 2 flagged the text as a whole';
+  }
+  const hidden = detection.hiddenContent;
+  if (hidden && (hidden.triggered || !hidden.passed) && !detection.spans?.some(
+    (span) => span.flagged && hidden.channels.some((channel) => span.category === channel)
+  )) {
+    return 'Hidden content flagged with no located spans';
+  }
+  return null;
+}
+
+/**
+ * Locate the flagged regions of text, merging overlapping ones
+ */
+export function findRedactionRegions(
+  text: string,
+  detection: DetectionResult,
+  options: RedactionOptions = {}
+): RedactedFragment[] {
+  const opts = { ...DEFAULT_REDACTION, ...options };
+  const regions: Array<{ start: number; end: number; reason: string; replacement?: string }> = [];
+  const sentences = opts.expand === 'sentence' ? splitSentences(text) : [];
+
+  for (const match of detection.layer1.offsets ?? []) {
+    const sentence = sentences.find((s) => s.start <= match.start && match.end <= s.end);
+    regions.push({
+      start: sentence?.start ?? match.start,
+      end: sentence?.end ?? match.end,
+      reason: `Layer 1: ${match.category}`,
+    });
+  }
+  for (const span of detection.spans ?? []) {
+    if (span.flagged) {
+      regions.push({ start: span.start, end: span.end, reason: `Flagged span: ${span.category ?? 'layer2'}` });
+    }
+  }
+  for (const finding of detection.secrets ?? []) {
+    regions.push({
+      start: finding.start,
+      end: finding.end,
+      reason: `${finding.type === 'secret' ? 'Secret' : 'PII'}: ${finding.kind}`,
+      replacement: `[REDACTED:${finding.kind}]`,
+    });
+  }
+
+  regions.sort((a, b) => a.start - b.start || b.end - a.end);
+  const fragments: RedactedFragment[] = [];
+  for (const region of regions) {
+    const last = fragments[fragments.length - 1];
+    if (last && region.start < last.end) {
+      // A secret inside a cut sentence goes with the sentence
+      if (region.end > last.end || region.replacement === undefined) delete last.replacement;
+      last.end = Math.max(last.end, region.end);
+      last.text = text.slice(last.start, last.end);
+      if (!last.reasons.includes(region.reason)) last.reasons.push(region.reason);
+    } else {
+      fragments.push({
+        start: region.start,
+        end: region.end,
+        text: text.slice(region.start, region.end),
+        reasons: [region.reason],
+        ...(region.replacement ? { replacement: region.replacement } : {}),
+      });
+    }
+  }
+
+  return fragments;
+}
+
+/**
+ * Remove or mask the flagged regions of text
+ */
+export function redactText(
+  text: string,
+  detection: DetectionResult,
+  options: RedactionOptions = {}
+): RedactionResult {
+  const opts = { ...DEFAULT_REDACTION, ...options };
+  const fragments = findRedactionRegions(text, detection, opts);
+
+  let sanitized = '';
+  let pos = 0;
+  for (const fragment of fragments) {
+    sanitized += text.slice(pos, fragment.start);
+    pos = fragment.end;
+    if (fragment.replacement) {
+      sanitized += fragment.replacement;
+    } else if (opts.mode === 'mask') {
+      sanitized += opts.mask;
+    } else if (sanitized === '' || /\s$/.test(sanitized)) {
+      // Don't leave a double space where a sentence was cut
+      while (pos < text.length && (text[pos] === ' ' || text[pos] === '\t')) pos++;
+    }
+  }
+  sanitized += text.slice(pos);
+
+  return { text: sanitized, fragments, complete: findUnlocatedFinding(detection) === null };
+}
@@ -0,0 +1,212 @@
+/**
+ * URL and domain reputation
+ *
+ * Exfiltration needs a destination. This extracts URLs, bare domains, IP
+ * addresses and email addresses from content and checks them against
+ * configurable allow/deny lists and a bundled offline list of services
+ * commonly used to receive stolen data: request catchers, tunnels,
+ * pastebins and URL shorteners. Raw public IPs and punycode (lookalike)
+ * hostnames are reported as well; bare domains written in Unicode are
+ * converted to punycode first, so lookalikes and full-width forms of
+ * listed services are caught. No network lookups are made.
+ */
+
+import { domainToASCII } from 'node:url';
+import { mergeDisjoint } from './ranges.js';
+
+export type IndicatorType = 'url' | 'domain' | 'ip' | 'email';
+
+export type ReputationCategory = 'denylist' | 'exfil' | 'tunnel' | 'pastebin' | 'shortener' | 'raw_ip' | 'punycode';
+
+/**
+ * A URL, domain, IP or email with a bad reputation
+ */
+export interface ReputationFinding {
+  type: IndicatorType;
+  /** The indicator as written in the text */
+  indicator: string;
+  /** Hostname (or IP) the indicator points at, lowercased */
+  host: string;
+  category: ReputationCategory;
+  /** Risk score (0-1) of the category */
+  score: number;
+  /** Start offset in the scanned text */
+  start: number;
+  /** End offset in the scanned text (exclusive) */
+  end: number;
+}
+
+/**
+ * Reputation check options
+ */
+export interface ReputationOptions {
+  /** Domains or IPs never reported (a domain covers its subdomains) */
+  allow?: string[];
+  /** Domains or IPs always reported (checked before the allow list) */
+  deny?: string[];
+  /** Use the bundled list of exfiltration, tunnel, paste and shortener services (default: true) */
+  builtin?: boolean;
+  /** Score at which a finding flags the content (default: 0.8, i.e. deny list and request catchers) */
+  flagThreshold?: number;
+  /** Characters scanned; the rest of a longer text is skipped (default: 1,000,000) */
+  maxInputLength?: number;
+}
+
+/**
+ * Default reputation settings
+ */
+export const DEFAULT_REPUTATION: Required<ReputationOptions> = {
+  allow: [],
+  deny: [],
+  builtin: true,
+  flagThreshold: 0.8,
+  maxInputLength: 1_000_000,
+};
+
+/**
+ * Score of each category
+ */
+export const REPUTATION_SCORES: Record<ReputationCategory, number> = {
+  denylist: 0.9,
+  exfil: 0.85,
+  tunnel: 0.7,
+  pastebin: 0.6,
+  punycode: 0.6,
+  raw_ip: 0.5,
+  shortener: 0.3,
+};
+
+/**
+ * Bundled offline list: services used to receive, relay or hide exfiltrated data
+ */
+export const BUILTIN_REPUTATION_LIST: Record<Exclude<ReputationCategory, 'denylist' | 'raw_ip' | 'punycode'>, string[]> = {
+  exfil: [
+    'webhook.site', 'requestbin.com', 'requestbin.net', 'requestcatcher.com', 'pipedream.net', 'hookbin.com',
+    'beeceptor.com', 'mockbin.org', 'interact.sh', 'oast.fun', 'oast.me', 'oast.pro', 'oast.live',
+    'burpcollaborator.net', 'oastify.com', 'canarytokens.com', 'dnslog.cn', 'ceye.io',
+  ],
+  tunnel: [
+    'ngrok.io', 'ngrok.app', 'ngrok-free.app', 'ngrok.dev', 'trycloudflare.com', 'loca.lt', 'localtunnel.me',
+    'serveo.net', 'localhost.run', 'lhr.life', 'bore.pub', 'pagekite.me', 'telebit.io', 'tunnelmole.net',
+    'localxpose.io', 'loclx.io',
+  ],
+  pastebin: [
+    'pastebin.com', 'paste.ee', 'hastebin.com', 'ghostbin.com', 'rentry.co', 'rentry.org', 'dpaste.org',
+    'dpaste.com', 'pastebin.pl', 'termbin.com', 'controlc.com', 'justpaste.it', 'transfer.sh', '0x0.st',
+    'file.io', 'paste.rs',
+  ],
+  shortener: [
+    'bit.ly', 'tinyurl.com', 't.co', 'goo.gl', 'is.gd', 'v.gd', 'ow.ly', 'cutt.ly', 'rebrand.ly', 'shorturl.at',
+    'rb.gy', 'tiny.cc', 'buff.ly', 'bl.ink', 't.ly',
+  ],
+};
+
+const URL_PATTERN = /\b(?:https?|ftp|wss?):\/\/[^\s<>"'`)\]}]+/gi;
+const EMAIL_PATTERN = /\b[A-Za-z0-9._%+-]+@((?:[A-Za-z0-9-]+\.)+(?:[A-Za-z]{2,63}|xn--[A-Za-z0-9-]+))\b/g;
+// Labels may be Unicode, with ideographic and full-width dots (IDNA maps them to ASCII)
+const DOMAIN_PATTERN =
+  /(?<![\p{L}\p{N}_])(?:[\p{L}\p{N}](?:[\p{L}\p{N}-]{0,61}[\p{L}\p{N}])?[.\u3002\uFF0E\uFF61])+(?:\p{L}{2,63}|xn--[A-Za-z0-9-]+)(?![\p{L}\p{N}_])/gu;
+const IPV4_PATTERN = /\b(?:\d{1,3}\.){3}\d{1,3}\b/g;
+
+/**
+ * Whether host is domain or one of its subdomains
+ */
+function matchesDomain(host: string, domain: string): boolean {
+  const entry = domain.toLowerCase().replace(/^\*\./, '');
+  return host === entry || host.endsWith(`.${entry}`);
+}
+
+/**
+ * Whether a dotted string is an IPv4 address
+ */
+function isIPv4(host: string): boolean {
+  return /^(?:\d{1,3}\.){3}\d{1,3}$/.test(host) && host.split('.').every((octet) => Number(octet) <= 255);
+}
+
+/**
+ * Whether an IPv4 address is private, loopback or link-local (not a remote destination)
+ */
+function isPrivateIPv4(ip: string): boolean {
+  const [a, b] = ip.split('.').map(Number);
+  return a === 10 || a === 127 || a === 0 ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 169 && b === 254);
+}
+
+/**
+ * Whether a bare punycode domain reads as a lookalike: written as punycode,
+ * or mixing Latin letters with another script (аpple.com), unlike a
+ * Unicode file name or a domain in one script (пример.рф)
+ */
+function isLookalike(domain: string): boolean {
+  if (/^[\x00-\x7F]*$/.test(domain)) return true;
+  return /\p{Script=Latin}/u.test(domain) && /(?!\p{Script=Latin})\p{L}/u.test(domain);
+}
+
+/**
+ * Hostname of a URL (IDN hostnames come back as punycode)
+ */
+function urlHost(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Classify a host, or null when it has no bad reputation
+ */
+function classify(host: string, opts: Required<ReputationOptions>): ReputationCategory | null {
+  if (opts.deny.some((entry) => matchesDomain(host, entry))) return 'denylist';
+  if (opts.allow.some((entry) => matchesDomain(host, entry))) return null;
+
+  if (opts.builtin) {
+    for (const [category, domains] of Object.entries(BUILTIN_REPUTATION_LIST)) {
+      if (domains.some((domain) => matchesDomain(host, domain))) return category as ReputationCategory;
+    }
+  }
+  if (isIPv4(host)) return isPrivateIPv4(host) ? null : 'raw_ip';
+  if (host.includes(':')) return host === '::1' ? null : 'raw_ip';
+  if (host.split('.').some((label) => label.startsWith('xn--'))) return 'punycode';
+  return null;
+}
+
+/**
+ * Find URLs, domains, IPs and emails with a bad reputation, in offset order
+ */
+export function checkReputation(text: string, options: ReputationOptions = {}): ReputationFinding[] {
+  const opts = { ...DEFAULT_REPUTATION, ...options };
+  const input = text.length > opts.maxInputLength ? text.slice(0, opts.maxInputLength) : text;
+  type Indicator = { type: IndicatorType; indicator: string; host: string; start: number; end: number };
+  const indicators = function* (
+    pattern: RegExp,
+    type: IndicatorType,
+    toHost: (indicator: string, match: RegExpMatchArray) => string | null
+  ): Generator<Indicator> {
+    for (const match of input.matchAll(pattern)) {
+      // Trailing punctuation belongs to the sentence, not the URL
+      const indicator = type === 'url' ? match[0].replace(/[.,;:!?]+$/, '') : match[0];
+      const host = toHost(indicator, match);
+      if (host) yield { type, indicator, host, start: match.index!, end: match.index! + indicator.length };
+    }
+  };
+
+  // Spans already covered by a URL or email are skipped, so their hosts aren't reported twice
+  let covered: Indicator[] = [];
+  covered = mergeDisjoint(covered, indicators(URL_PATTERN, 'url', urlHost));
+  covered = mergeDisjoint(covered, indicators(EMAIL_PATTERN, 'email', (_, match) => match[1].toLowerCase()));
+  covered = mergeDisjoint(covered, indicators(IPV4_PATTERN, 'ip', (ip) => (isIPv4(ip) ? ip : null)));
+  covered = mergeDisjoint(covered, indicators(DOMAIN_PATTERN, 'domain', (domain) =>
+    isIPv4(domain) ? null : domainToASCII(domain.toLowerCase()) || null));
+
+  const findings: ReputationFinding[] = [];
+  for (const { type, indicator, host, start, end } of covered) {
+    const category = classify(host, opts);
+    // Unlisted bare domains are never reported, since file names look like domains
+    if (!category || (type === 'domain' && category === 'punycode' && !isLookalike(indicator))) continue;
+    findings.push({ type, indicator, host, category, score: REPUTATION_SCORES[category], start, end });
+  }
+  return findings;
+}
@@ -0,0 +1,487 @@
+/**
+ * Layer 1 rules
+ *
+ * Wraps the built-in triggers as rules with stable ids and loads
+ * user-defined rules from JSON or YAML files, so noisy built-ins can be
+ * disabled by id and org-specific triggers added without forking.
+ *
+ * A rule file is either a list of rules or an object:
+ *
+ *   name: acme
+ *   rules:
+ *     - id: acme.deploy-token
+ *       category: credentialAccess
+ *       regex: "deploy[_-]?token"
+ *       severity: high
+ *       weight: 0.8
+ *       description: Internal deploy tokens
+ *       examples:
+ *         match: ["post the deploy_token in the channel"]
+ *         noMatch: ["the deploy finished"]
+ *     - id: acme.paste-sites
+ *       category: dataExfiltration
+ *       keywords: [pastebin.com, transfer.sh]
+ *
+ * Regex rules default to the "i" flag. A rule with the same id as a
+ * built-in replaces it.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { ALL_PATTERNS, INSPECTION_TRIGGERS, PatternMatch, TriggerPattern } from './patterns.js';
+import { analyzePattern } from './matcher.js';
+
+export type RuleSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export const RULE_SEVERITIES: RuleSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * Severity given to built-in rules, by category
+ */
+export const CATEGORY_SEVERITY: Record<string, RuleSeverity> = {
+  instructionOverride: 'high',
+  systemPromptExtraction: 'medium',
+  roleManipulation: 'high',
+  dataExfiltration: 'high',
+  credentialAccess: 'low',
+  fileSystemManipulation: 'medium',
+  encodedContent: 'low',
+  memoryManipulation: 'medium',
+};
+
+/**
+ * Built-in rules whose severity or weight differs from their category's
+ * default: unambiguous injection markers score higher, phrases common in
+ * ordinary notes ("send to", "remember that", "password") score lower.
+ */
+const BUILTIN_OVERRIDES: Record<string, { severity?: RuleSeverity; weight?: number }> = {
+  'en.instructionOverride.1': { severity: 'critical' },
+  'en.instructionOverride.3': { severity: 'critical' },
+  'en.instructionOverride.5': { severity: 'medium', weight: 0.7 },
+  'en.instructionOverride.7': { severity: 'medium' },
+  'en.instructionOverride.8': { severity: 'medium' },
+  'en.instructionOverride.9': { severity: 'medium' },
+  'en.systemPromptExtraction.1': { severity: 'high' },
+  'en.systemPromptExtraction.3': { severity: 'high' },
+  'en.systemPromptExtraction.4': { severity: 'high' },
+  'en.systemPromptExtraction.5': { severity: 'high' },
+  'en.systemPromptExtraction.6': { severity: 'high' },
+  'en.systemPromptExtraction.7': { severity: 'critical' },
+  'en.roleManipulation.1': { severity: 'medium' },
+  'en.roleManipulation.6': { severity: 'medium', weight: 0.8 },
+  'en.roleManipulation.7': { severity: 'critical' },
+  'en.dataExfiltration.1': { severity: 'medium', weight: 0.6 },
+  'en.dataExfiltration.2': { severity: 'medium' },
+  'en.dataExfiltration.3': { severity: 'medium' },
+  'en.dataExfiltration.4': { severity: 'low' },
+  'en.credentialAccess.1': { weight: 0.5 },
+  'en.credentialAccess.5': { severity: 'medium' },
+  'en.credentialAccess.6': { severity: 'medium' },
+  'en.credentialAccess.7': { severity: 'high' },
+  'en.fileSystemManipulation.1': { severity: 'low' },
+  'en.fileSystemManipulation.2': { severity: 'high' },
+  'en.fileSystemManipulation.3': { severity: 'low' },
+  'en.fileSystemManipulation.4': { severity: 'high' },
+  'en.fileSystemManipulation.6': { severity: 'low' },
+  'en.encodedContent.1': { severity: 'medium' },
+  'en.memoryManipulation.1': { severity: 'high' },
+  'en.memoryManipulation.2': { severity: 'high' },
+  'en.memoryManipulation.3': { severity: 'low', weight: 0.5 },
+  'en.memoryManipulation.5': { severity: 'low' },
+  'en.memoryManipulation.6': { severity: 'high' },
+  'en.memoryManipulation.7': { severity: 'high' },
+};
+
+/**
+ * Layer 1 score of a match of each severity, before the rule's weight
+ */
+export const SEVERITY_SCORES: Record<RuleSeverity, number> = {
+  low: 0.2,
+  medium: 0.4,
+  high: 0.6,
+  critical: 0.9,
+};
+
+/**
+ * Most that further matches in one category add to its strongest match
+ */
+export const CATEGORY_SCORE_BONUS = 0.1;
+
+/** Regex flags allowed in rule files ("g" and "y" make matching stateful) */
+const ALLOWED_FLAGS = /^[imsu]*$/;
+
+/**
+ * Example texts a rule must (or must not) match
+ */
+export interface RuleExamples {
+  match: string[];
+  noMatch: string[];
+}
+
+/**
+ * A Layer 1 rule
+ */
+export interface PatternRule extends TriggerPattern {
+  severity: RuleSeverity;
+  /** Confidence weight in (0, 1] applied to the severity score */
+  weight: number;
+  enabled: boolean;
+  description?: string;
+  examples?: RuleExamples;
+  /** 'builtin' or the rule file the rule was loaded from */
+  source: string;
+}
+
+/**
+ * A named collection of rules loaded from a file
+ */
+export interface RuleFile {
+  /** Rule file name (defaults to the file name) */
+  name: string;
+  description?: string;
+  rules: PatternRule[];
+}
+
+/**
+ * Finding reported by lintRules
+ */
+export interface RuleLintIssue {
+  level: 'error' | 'warning';
+  ruleId?: string;
+  message: string;
+}
+
+/**
+ * One matched rule's share of the Layer 1 score
+ */
+export interface Layer1Contribution {
+  ruleId?: string;
+  category: string;
+  matched: string;
+  severity: RuleSeverity;
+  weight: number;
+  /** Severity score times weight */
+  score: number;
+}
+
+/**
+ * Combined Layer 1 score with its breakdown
+ */
+export interface Layer1Score {
+  /** Combined score (0-1) */
+  score: number;
+  /** Capped score per category */
+  categoryScores: Record<string, number>;
+  /** Per-rule contributions, highest first */
+  contributions: Layer1Contribution[];
+}
+
+/**
+ * Example that did not behave as declared
+ */
+export interface RuleExampleFailure {
+  ruleId: string;
+  example: string;
+  expected: 'match' | 'noMatch';
+}
+
+/**
+ * Build a case-insensitive pattern matching any of the keywords
+ * Keywords starting or ending with a word character are matched on word boundaries.
+ */
+export function keywordsToPattern(keywords: string[]): RegExp {
+  const alternatives = keywords.map((keyword) => {
+    const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+    return `${/^\w/.test(keyword) ? '\\b' : ''}${escaped}${/\w$/.test(keyword) ? '\\b' : ''}`;
+  });
+  return new RegExp(`(?:${alternatives.join('|')})`, 'i');
+}
+
+/**
+ * Validate a list of example strings
+ */
+function validateExampleList(value: unknown, location: string): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) {
+    throw new Error(`${location}: must be a list of strings`);
+  }
+  return value as string[];
+}
+
+/**
+ * Validate and compile a raw rule entry
+ * @throws Error describing the first invalid field (including invalid regexes)
+ */
+export function validateRule(raw: unknown, source: string, location = 'rule'): PatternRule {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`${location}: expected an object`);
+  }
+
+  const entry = raw as Record<string, unknown>;
+
+  if (typeof entry.id !== 'string' || entry.id.trim() === '') {
+    throw new Error(`${location}: "id" must be a non-empty string`);
+  }
+  const id = entry.id.trim();
+  location = `${location} (${id})`;
+
+  if (typeof entry.category !== 'string' || entry.category.trim() === '') {
+    throw new Error(`${location}: "category" must be a non-empty string`);
+  }
+  if (entry.regex !== undefined && entry.keywords !== undefined) {
+    throw new Error(`${location}: use either "regex" or "keywords", not both`);
+  }
+
+  let pattern: RegExp;
+  if (entry.regex !== undefined) {
+    if (typeof entry.regex !== 'string' || entry.regex === '') {
+      throw new Error(`${location}: "regex" must be a non-empty string`);
+    }
+    const flags = entry.flags ?? 'i';
+    if (typeof flags !== 'string' || !ALLOWED_FLAGS.test(flags)) {
+      throw new Error(`${location}: "flags" may only contain i, m, s and u`);
+    }
+    try {
+      pattern = new RegExp(entry.regex, flags);
+    } catch (error) {
+      throw new Error(`${location}: invalid regex: ${error instanceof Error ? error.message : error}`);
+    }
+    if (analyzePattern(pattern).nestedQuantifier) {
+      throw new Error(`${location}: nested unbounded quantifiers (e.g. (a+)+) can backtrack catastrophically`);
+    }
+  } else if (entry.keywords !== undefined) {
+    if (!Array.isArray(entry.keywords) || entry.keywords.length === 0 ||
+        entry.keywords.some((k) => typeof k !== 'string' || k.trim() === '')) {
+      throw new Error(`${location}: "keywords" must be a non-empty list of strings`);
+    }
+    pattern = keywordsToPattern((entry.keywords as string[]).map((k) => k.trim()));
+  } else {
+    throw new Error(`${location}: one of "regex" or "keywords" is required`);
+  }
+
+  const severity = entry.severity ?? CATEGORY_SEVERITY[entry.category.trim()] ?? 'medium';
+  if (!RULE_SEVERITIES.includes(severity as RuleSeverity)) {
+    throw new Error(`${location}: "severity" must be one of ${RULE_SEVERITIES.join(', ')}`);
+  }
+  if (entry.weight !== undefined) {
+    if (typeof entry.weight !== 'number' || entry.weight <= 0 || entry.weight > 1) {
+      throw new Error(`${location}: "weight" must be a number in (0, 1]`);
+    }
+  }
+  if (entry.enabled !== undefined && typeof entry.enabled !== 'boolean') {
+    throw new Error(`${location}: "enabled" must be a boolean`);
+  }
+  if (entry.description !== undefined && typeof entry.description !== 'string') {
+    throw new Error(`${location}: "description" must be a string`);
+  }
+  if (entry.language !== undefined && typeof entry.language !== 'string') {
+    throw new Error(`${location}: "language" must be a string`);
+  }
+
+  let examples: RuleExamples | undefined;
+  if (entry.examples !== undefined) {
+    if (!entry.examples || typeof entry.examples !== 'object' || Array.isArray(entry.examples)) {
+      throw new Error(`${location}: "examples" must be an object with "match" and/or "noMatch"`);
+    }
+    const ex = entry.examples as Record<string, unknown>;
+    examples = {
+      match: validateExampleList(ex.match, `${location} examples.match`),
+      noMatch: validateExampleList(ex.noMatch, `${location} examples.noMatch`),
+    };
+  }
+
+  return {
+    id,
+    pattern,
+    category: entry.category.trim(),
+    language: entry.language as string | undefined,
+    severity: severity as RuleSeverity,
+    weight: (entry.weight as number | undefined) ?? 1,
+    enabled: (entry.enabled as boolean | undefined) ?? true,
+    description: entry.description as string | undefined,
+    examples,
+    source,
+  };
+}
+
+/**
+ * Load rules from a JSON or YAML file
+ * @throws Error if the file cannot be read or contains invalid rules
+ */
+export function loadRuleFile(filePath: string): RuleFile {
+  let data: unknown;
+  try {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const ext = path.extname(filePath).toLowerCase();
+    data = ext === '.yaml' || ext === '.yml' ? YAML.parse(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to read rule file ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const info = Array.isArray(data) ? { rules: data } : (data ?? {}) as Record<string, unknown>;
+  if (!Array.isArray(info.rules)) {
+    throw new Error(`Invalid rule file ${filePath}: expected a list or an object with "rules"`);
+  }
+
+  return {
+    name: typeof info.name === 'string' ? info.name : path.basename(filePath, path.extname(filePath)),
+    description: typeof info.description === 'string' ? info.description : undefined,
+    rules: info.rules.map((raw, i) => validateRule(raw, filePath, `${filePath} rule #${i + 1}`)),
+  };
+}
+
+/**
+ * Load and concatenate rules from several files
+ * Missing files are skipped when ignoreMissing is set.
+ */
+export function loadRuleFiles(filePaths: string[], options?: { ignoreMissing?: boolean }): PatternRule[] {
+  const rules: PatternRule[] = [];
+
+  for (const filePath of filePaths) {
+    if (options?.ignoreMissing && !fs.existsSync(filePath)) {
+      continue;
+    }
+    rules.push(...loadRuleFile(filePath).rules);
+  }
+
+  return rules;
+}
+
+/**
+ * Built-in triggers (English and localized) as rules
+ */
+export function getBuiltinRules(): PatternRule[] {
+  return ALL_PATTERNS.map((p) => ({
+    ...p,
+    severity: BUILTIN_OVERRIDES[p.id]?.severity ?? CATEGORY_SEVERITY[p.category] ?? 'medium',
+    weight: BUILTIN_OVERRIDES[p.id]?.weight ?? 1,
+    enabled: true,
+    source: 'builtin',
+  }));
+}
+
+/**
+ * Combine Layer 1 matches into a single score
+ * Each match contributes its severity score times its weight. Within a
+ * category, further matches add at most CATEGORY_SCORE_BONUS to the
+ * strongest one, so a rule family matching several times is not counted
+ * over and over. Categories combine as independent evidence:
+ * 1 - (1 - a)(1 - b)...
+ */
+export function scoreLayer1(matches: PatternMatch[]): Layer1Score {
+  const contributions: Layer1Contribution[] = matches.map((m) => {
+    const severity = m.severity ?? CATEGORY_SEVERITY[m.category] ?? 'medium';
+    const weight = m.weight ?? 1;
+    return {
+      ruleId: m.ruleId,
+      category: m.category,
+      matched: m.matched,
+      severity,
+      weight,
+      score: SEVERITY_SCORES[severity] * weight,
+    };
+  }).sort((a, b) => b.score - a.score);
+
+  const categoryScores: Record<string, number> = {};
+  for (const category of new Set(contributions.map((c) => c.category))) {
+    const [strongest, ...rest] = contributions.filter((c) => c.category === category).map((c) => c.score);
+    const bonus = Math.min(rest.reduce((sum, s) => sum + s, 0), CATEGORY_SCORE_BONUS);
+    categoryScores[category] = Math.min(strongest + bonus, 1);
+  }
+
+  const score = 1 - Object.values(categoryScores).reduce((remaining, s) => remaining * (1 - s), 1);
+  return { score, categoryScores, contributions };
+}
+
+/**
+ * Merge built-in and user rules and apply per-rule disables
+ * User rules replace built-ins with the same id; later user rules win.
+ * Disabled rules stay in the set (enabled: false) so they can be listed.
+ */
+export function buildRuleSet(options: { rules?: PatternRule[]; disabled?: string[] } = {}): PatternRule[] {
+  const byId = new Map<string, PatternRule>();
+  for (const rule of [...getBuiltinRules(), ...(options.rules ?? [])]) {
+    byId.set(rule.id, rule);
+  }
+
+  const disabled = new Set(options.disabled ?? []);
+  return [...byId.values()].map((rule) => disabled.has(rule.id) ? { ...rule, enabled: false } : rule);
+}
+
+/**
+ * Run each rule's embedded examples
+ * @returns Examples that did not match (or matched) as declared
+ */
+export function testRuleExamples(rules: PatternRule[]): RuleExampleFailure[] {
+  const failures: RuleExampleFailure[] = [];
+
+  for (const rule of rules) {
+    for (const example of rule.examples?.match ?? []) {
+      if (!rule.pattern.test(example)) {
+        failures.push({ ruleId: rule.id, example, expected: 'match' });
+      }
+    }
+    for (const example of rule.examples?.noMatch ?? []) {
+      if (rule.pattern.test(example)) {
+        failures.push({ ruleId: rule.id, example, expected: 'noMatch' });
+      }
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Check user rules for problems that loading alone does not catch
+ * Errors: duplicate ids, patterns matching empty text, failing examples.
+ * Warnings: unknown categories, overridden built-ins, missing examples,
+ * patterns without a literal anchor for the matcher's prefilter, and
+ * disabled ids that match no rule.
+ */
+export function lintRules(rules: PatternRule[], options: { disabled?: string[] } = {}): RuleLintIssue[] {
+  const issues: RuleLintIssue[] = [];
+  const builtinIds = new Set(ALL_PATTERNS.map((p) => p.id));
+  const seen = new Set<string>();
+
+  for (const rule of rules) {
+    if (seen.has(rule.id)) {
+      issues.push({ level: 'error', ruleId: rule.id, message: 'Duplicate rule id' });
+    }
+    seen.add(rule.id);
+
+    if (rule.pattern.test('')) {
+      issues.push({ level: 'error', ruleId: rule.id, message: 'Pattern matches empty text' });
+    }
+    if (!(rule.category in INSPECTION_TRIGGERS)) {
+      issues.push({ level: 'warning', ruleId: rule.id, message: `Unknown category "${rule.category}"` });
+    }
+    if (builtinIds.has(rule.id)) {
+      issues.push({ level: 'warning', ruleId: rule.id, message: 'Replaces the built-in rule with this id' });
+    }
+    if (!analyzePattern(rule.pattern).literals) {
+      issues.push({ level: 'warning', ruleId: rule.id, message: 'No literal anchor; the regex runs on the whole input' });
+    }
+    if (!rule.examples || rule.examples.match.length === 0) {
+      issues.push({ level: 'warning', ruleId: rule.id, message: 'No "match" examples' });
+    }
+  }
+
+  for (const failure of testRuleExamples(rules)) {
+    issues.push({
+      level: 'error',
+      ruleId: failure.ruleId,
+      message: failure.expected === 'match'
+        ? `Example should match: "${failure.example}"`
+        : `Example should not match: "${failure.example}"`,
+    });
+  }
+
+  for (const id of options.disabled ?? []) {
+    if (!builtinIds.has(id) && !seen.has(id)) {
+      issues.push({ level: 'warning', ruleId: id, message: 'Disabled id matches no rule' });
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,181 @@
+/**
+ * Secret and PII detection
+ *
+ * Finds credentials (cloud keys, tokens, JWTs, private keys, high-entropy
+ * strings) and personal data (emails, phone numbers, card numbers) in
+ * content being written to memory. Findings carry offsets and a short
+ * preview only, so results can be logged without leaking the secret.
+ */
+
+import { mergeDisjoint } from './ranges.js';
+
+export type SecretType = 'secret' | 'pii';
+
+export type SecretKind =
+  | 'aws_access_key'
+  | 'github_token'
+  | 'slack_token'
+  | 'jwt'
+  | 'private_key'
+  | 'high_entropy'
+  | 'email'
+  | 'phone'
+  | 'credit_card';
+
+/**
+ * A secret or piece of PII found in text
+ */
+export interface SecretFinding {
+  kind: SecretKind;
+  type: SecretType;
+  /** Start offset in the scanned text */
+  start: number;
+  /** End offset in the scanned text (exclusive) */
+  end: number;
+  /** First characters of the match, for display */
+  preview: string;
+}
+
+/**
+ * Secret scanning options
+ */
+export interface SecretScanOptions {
+  /** Also look for emails, phone numbers and card numbers (default: true) */
+  pii?: boolean;
+  /** Report long random-looking strings (default: true) */
+  highEntropy?: boolean;
+  /** Shannon entropy (bits per character) a string needs to count as random (default: 4.2) */
+  minEntropy?: number;
+  /** Characters scanned; the rest of a longer text is skipped (default: 1,000,000) */
+  maxInputLength?: number;
+}
+
+/**
+ * Default secret scanning settings
+ */
+export const DEFAULT_SECRET_SCAN: Required<SecretScanOptions> = {
+  pii: true,
+  highEntropy: true,
+  minEntropy: 4.2,
+  maxInputLength: 1_000_000,
+};
+
+/**
+ * A detector: a regex and an optional check on each match
+ */
+interface SecretDetector {
+  kind: SecretKind;
+  type: SecretType;
+  pattern: RegExp;
+  validate?: (match: string) => boolean;
+}
+
+/**
+ * Detectors in priority order: where matches overlap, the earlier detector wins
+ */
+const DETECTORS: SecretDetector[] = [
+  {
+    kind: 'private_key',
+    type: 'secret',
+    pattern: /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY-----[\s\S]*?(?:-----END (?:[A-Z]+ )*PRIVATE KEY-----|$)/g,
+  },
+  { kind: 'aws_access_key', type: 'secret', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { kind: 'github_token', type: 'secret', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g },
+  { kind: 'slack_token', type: 'secret', pattern: /\bxox[abeprs]-[A-Za-z0-9-]{10,255}/g },
+  { kind: 'jwt', type: 'secret', pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/g },
+  { kind: 'credit_card', type: 'pii', pattern: /(?<![\d-])\d(?:[ -]?\d){12,18}(?![\d-])/g, validate: isCardNumber },
+  { kind: 'email', type: 'pii', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g },
+  {
+    kind: 'phone',
+    type: 'pii',
+    pattern: /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{3}\)|\d{3})[ .-]?\d{3}[ .-]?\d{4}(?!\w)/g,
+  },
+];
+
+/** Candidate tokens for the entropy check (base64/base64url/hex-like runs) */
+const TOKEN_PATTERN = /[A-Za-z0-9+/_-]{32,512}={0,2}/g;
+
+/**
+ * Whether a digit string passes the Luhn checksum used by card numbers
+ */
+export function luhnCheck(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Whether a match is a 13-19 digit number with a valid Luhn checksum
+ */
+function isCardNumber(match: string): boolean {
+  const digits = match.replace(/[ -]/g, '');
+  return digits.length >= 13 && digits.length <= 19 && !/^(\d)\1+$/.test(digits) && luhnCheck(digits);
+}
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+export function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const char of text) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Whether a token looks like a random credential rather than a word, path or hash
+ * Pure hex (commit hashes, checksums) is skipped.
+ */
+function isHighEntropy(token: string, minEntropy: number): boolean {
+  if (/^[0-9a-fA-F]+$/.test(token)) return false;
+  if (!/\d/.test(token) || !/[a-z]/.test(token) || !/[A-Z]/.test(token)) return false;
+  return shannonEntropy(token) >= minEntropy;
+}
+
+/**
+ * Shorten a match for display without exposing it
+ */
+function preview(match: string): string {
+  return match.length <= 8 ? `${match.slice(0, 2)}…` : `${match.slice(0, 4)}…`;
+}
+
+/**
+ * Find secrets and PII in text, in offset order
+ */
+export function scanSecrets(text: string, options: SecretScanOptions = {}): SecretFinding[] {
+  const opts = { ...DEFAULT_SECRET_SCAN, ...options };
+  const input = text.length > opts.maxInputLength ? text.slice(0, opts.maxInputLength) : text;
+  type Match = { kind: SecretKind; type: SecretType; start: number; end: number; text: string };
+  const matches = function* (pattern: RegExp, kind: SecretKind, type: SecretType): Generator<Match> {
+    for (const match of input.matchAll(pattern)) {
+      yield { kind, type, start: match.index!, end: match.index! + match[0].length, text: match[0] };
+    }
+  };
+  let kept: Match[] = [];
+
+  for (const detector of DETECTORS) {
+    if (detector.type === 'pii' && !opts.pii) continue;
+    const { validate } = detector;
+    kept = mergeDisjoint(kept, matches(detector.pattern, detector.kind, detector.type), (m) => !validate || validate(m.text));
+  }
+
+  if (opts.highEntropy) {
+    kept = mergeDisjoint(kept, matches(TOKEN_PATTERN, 'high_entropy', 'secret'), (m) => isHighEntropy(m.text, opts.minEntropy));
+  }
+
+  return kept.map(({ kind, type, start, end, text: match }) => ({ kind, type, start, end, preview: preview(match) }));
+}
@@ -0,0 +1,89 @@
+/**
+ * Detection stages
+ *
+ * The Detector runs an ordered list of stages over each input. Layers 1-3,
+ * the secret scanner and the URL reputation check are built-in stages
+ * ("layer1", "secrets", "reputation", "layer2", "layer3"); extra checks such as classifiers plug in as further
+ * stages without subclassing the Detector:
+ *
+ *   detector.addStage({
+ *     name: 'internal-hosts',
+ *     order: 180,                       // after Layer 1, before Layer 2
+ *     shouldRun: (ctx) => ctx.trustLevel !== TrustLevel.USER,
+ *     run: (ctx) => mentionsInternalHost(ctx.text) ? { flagged: true, score: 0.8, reasons: ['Internal host'] } : {},
+ *   });
+ *
+ * Each stage's output is reported in DetectionResult.stages under its name.
+ * A stage returning stop: true skips every later stage.
+ */
+
+import type { TrustLevel } from './types.js';
+import type { PatternMatch } from './patterns.js';
+import type { NormalizedVariant } from './normalization.js';
+import type { TextChunk } from './chunking.js';
+
+/**
+ * Order of the built-in stages (lower runs first)
+ */
+export const BUILTIN_STAGE_ORDER = {
+  layer1: 100,
+  secrets: 150,
+  reputation: 160,
+  layer2: 200,
+  layer3: 300,
+} as const;
+
+/**
+ * Order given to stages that do not set one (after the built-in layers)
+ */
+export const DEFAULT_STAGE_ORDER = 1000;
+
+/**
+ * What a stage sees about the input and the stages before it
+ */
+export interface StageContext {
+  text: string;
+  trustLevel: TrustLevel;
+  source?: string;
+  /** Normalized/decoded variants of the text */
+  variants: NormalizedVariant[];
+  /** Chunks of the text (a single chunk unless chunking is enabled) */
+  chunks: TextChunk[];
+  /** Layer 1 matches (empty until the layer1 stage has run) */
+  layer1Matches: PatternMatch[];
+  /** Outputs of the stages that have run so far, by stage name */
+  results: Record<string, StageOutput>;
+  /** Whether any stage has flagged the content so far */
+  flagged: boolean;
+  /** Highest stage score so far */
+  score: number;
+}
+
+/**
+ * A stage's contribution to the detection result
+ */
+export interface StageOutput {
+  /** Content should be blocked */
+  flagged?: boolean;
+  /** Risk score (0-1); the overall score is at least the highest stage score */
+  score?: number;
+  /** Added to DetectionResult.reason */
+  reasons?: string[];
+  /** Skip all later stages */
+  stop?: boolean;
+  /** Stage-specific details, reported in DetectionResult.stages */
+  data?: Record<string, unknown>;
+}
+
+/**
+ * A step of the detection pipeline
+ */
+export interface DetectionStage {
+  /** Unique name, used as the key in DetectionResult.stages */
+  readonly name: string;
+  /** Position in the pipeline (default: DEFAULT_STAGE_ORDER) */
+  readonly order?: number;
+  /** Gate: the stage only runs when this returns true (default: always) */
+  shouldRun?(context: StageContext): boolean;
+  run(context: StageContext): StageOutput | Promise<StageOutput>;
+}
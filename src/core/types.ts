@@ -1,3 +1,13 @@
+import type { NormalizationStep } from './normalization.js';
+import type { HiddenChannel, HiddenSegment } from './hidden-content.js';
+import type { Layer1Contribution } from './rules.js';
+import type { PolicyAction } from './policy.js';
+import type { RedactedFragment } from './redaction.js';
+import type { SecretFinding } from './secrets.js';
+import type { ReputationFinding } from './reputation.js';
+import type { JudgeCategory, JudgeVote } from './judge.js';
+import type { LLMProviderConfig } from './llm-providers.js';
+
 /**
  * Trust levels for memory sources
  */
@@ -34,6 +44,10 @@ export interface MemoryProvenance {
   detectionScore?: number;
   /** Flags raised during detection */
   flags?: string[];
+  /** Action the policy engine decided (allow, allow_with_warning, quarantine, block, redact) */
+  policyAction?: PolicyAction;
+  /** Policy rule that decided the action (unset when the default action applied) */
+  policyRule?: string;
 }
 
 /**
@@ -48,12 +62,39 @@ export interface DetectionResult {
   layer1: {
     triggered: boolean;
     patterns: string[];
+    /** Combined weighted score of the matched rules (0-1) */
+    score?: number;
+    /** Capped score per category */
+    categoryScores?: Record<string, number>;
+    /** Per-rule contributions to the score, highest first */
+    contributions?: Layer1Contribution[];
+    /** Input exceeded the matcher's size limit and was only partly scanned */
+    truncated?: boolean;
+    /** Matcher's time budget ran out before all rules were checked */
+    timedOut?: boolean;
+    /** Where rules matched in the input (matches found only in normalized variants have none) */
+    offsets?: Array<{ ruleId?: string; category: string; start: number; end: number }>;
+    /** Some matches are missing from offsets (found only in a variant, or past the per-rule limit) */
+    unlocated?: boolean;
   };
   /** Layer 2 semantic similarity results */
   layer2: {
     triggered: boolean;
     similarity: number;
     matchedExemplar?: string;
+    /** Most similar attack exemplars, most similar first */
+    topMatches?: Array<{ text: string; category: string; similarity: number }>;
+    /** Highest similarity per attack category */
+    categorySimilarity?: Record<string, number>;
+    /** Category that triggered on aggregate evidence across several exemplars */
+    aggregateCategory?: string;
+    /** Similarity to the closest benign exemplar */
+    benignSimilarity?: number;
+    matchedBenignExemplar?: string;
+    /** Attack similarity minus benign similarity (negative = closer to benign) */
+    margin?: number;
+    /** Whether the attack match was downgraded for being closer to benign content */
+    suppressed?: boolean;
   };
   /** Layer 3 LLM judge results (only for borderline cases) */
   layer3?: {
@@ -61,11 +102,31 @@ export interface DetectionResult {
     verdict?: 'SAFE' | 'SUSPICIOUS' | 'DANGEROUS';
     confidence?: number;
     reasoning?: string;
+    /** Attack categories named by the judge */
+    categories?: JudgeCategory[];
+    /** What the content targets, according to the judge */
+    targetedAssets?: string[];
+    /** Passages of the content the judge cited */
+    citedSpans?: string[];
+    /** Set when the judge gave no usable verdict; the verdict is then a SUSPICIOUS placeholder */
+    error?: string;
+    /** Each judge's vote (judge ensembles only) */
+    votes?: JudgeVote[];
+    /** The ensemble's judges split between SAFE and unsafe verdicts */
+    disagreement?: boolean;
+    /** Set when an agent judge response was rejected for not matching its request */
+    mismatch?: 'nonce' | 'content_hash' | 'request';
   };
   /** Agent-as-judge request (when useAgentJudge is enabled) */
   agentJudgeRequest?: {
     needsAgentEvaluation: true;
     evaluationPrompt: string;
+    /** Nonce the agent's response must echo */
+    nonce: string;
+    /** Random per-request value signed into the nonce */
+    salt: string;
+    /** SHA-256 of the evaluated content */
+    contentHash: string;
     context: {
       layer2Similarity: number;
       layer2Threshold: number;
@@ -81,10 +142,75 @@ export interface DetectionResult {
     }>;
     inLearningPeriod: boolean;
   };
+  /** Detected language of the input (ISO 639-1 code, 'und' if unknown) */
+  language?: string;
+  /** Regions with findings when long input was scanned in chunks */
+  spans?: DetectionSpan[];
+  /** Number of chunks scanned (only set for chunked scans) */
+  chunkCount?: number;
+  /** Hidden Markdown/HTML channels scanned on their own (only set when present) */
+  hiddenContent?: {
+    /** Hidden text contains instruction-like content the visible text does not */
+    triggered: boolean;
+    /** Channels that held hidden text */
+    channels: HiddenChannel[];
+    segments: HiddenSegment[];
+    /** Layer 1 patterns matched only in hidden text */
+    patterns: string[];
+    /** Whether the hidden text passed detection on its own */
+    passed: boolean;
+    score: number;
+    layer2Similarity: number;
+  };
+  /** Normalization and decoding applied before scanning (only set when the input changed) */
+  normalization?: {
+    /** Distinct steps applied across all variants */
+    transformations: NormalizationStep[];
+    /** Variants scanned alongside the original input */
+    variants: Array<{ text: string; transformations: NormalizationStep[] }>;
+  };
+  /** Credentials and PII found in the input (only set when present) */
+  secrets?: SecretFinding[];
+  /** URLs, domains, IPs and emails with a bad reputation (only set when present) */
+  reputation?: ReputationFinding[];
+  /** Outcome of each detection stage, by stage name (built-in: layer1, secrets, reputation, layer2, layer3) */
+  stages?: Record<string, StageResult>;
   /** Human-readable explanation */
   reason: string;
 }
 
+/**
+ * Outcome of one detection stage
+ */
+export interface StageResult {
+  /** False when the stage was gated off or skipped by an earlier stage */
+  ran: boolean;
+  flagged: boolean;
+  score: number;
+  reasons?: string[];
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Region of the scanned text with Layer 1 or Layer 2 findings
+ */
+export interface DetectionSpan {
+  /** Start offset in the scanned text */
+  start: number;
+  /** End offset in the scanned text (exclusive) */
+  end: number;
+  /** The span text */
+  text: string;
+  /** Layer 1 patterns matched within the span */
+  layer1Patterns: string[];
+  /** Best Layer 2 similarity for the span */
+  layer2Similarity: number;
+  /** Category of the best Layer 2 match */
+  category?: string;
+  /** Whether Layer 2 flagged this span */
+  flagged: boolean;
+}
+
 /**
  * Status of a quarantined memory
  */
@@ -112,6 +238,10 @@ export interface QuarantinedMemory {
   layer3Verdict?: 'SAFE' | 'SUSPICIOUS' | 'DANGEROUS';
   /** Layer 3 reasoning */
   layer3Reasoning?: string;
+  /** Flagged regions of the text (chunked scans only) */
+  spans?: DetectionSpan[];
+  /** Set when only these fragments were quarantined and the rest was stored redacted */
+  redaction?: QuarantineRedaction;
   /** When the memory was quarantined */
   quarantinedAt: Date;
   /** Current status */
@@ -122,6 +252,17 @@ export interface QuarantinedMemory {
   reviewedBy?: string;
 }
 
+/**
+ * Link from quarantined fragments to the redacted memory they were cut from
+ */
+export interface QuarantineRedaction {
+  /** Provenance record shared with the stored, redacted memory */
+  provenanceId: string;
+  /** Text before redaction (for restoring the memory) */
+  originalText: string;
+  fragments: RedactedFragment[];
+}
+
 /**
  * A stored memory entry with provenance
  */
@@ -156,6 +297,8 @@ export interface MemfwConfig {
   enableLayer3?: boolean;
   /** Model to use for Layer 3 LLM judge (default: gpt-4o-mini) */
   layer3Model?: string;
+  /** Provider for the Layer 3 LLM judge (default: OpenAI with openaiApiKey and layer3Model) */
+  layer3Provider?: LLMProviderConfig;
 }
 
 /**
@@ -11,26 +11,81 @@ export { TrustLevel, DEFAULT_TRUST_THRESHOLDS, DEFAULT_SIMILARITY_THRESHOLD } fr
 export type {
   MemoryProvenance,
   DetectionResult,
+  DetectionSpan,
+  StageResult,
   QuarantineStatus,
   QuarantinedMemory,
+  QuarantineRedaction,
   Memory,
   MemfwConfig,
 } from './core/types.js';
 
 // Detection pipeline
-export { Detector, createDetector, isAgentJudgeEnabled } from './core/detector.js';
-export { LLMJudge, createJudge } from './core/judge.js';
-export type { JudgeResult, JudgeVerdict, JudgeContext } from './core/judge.js';
+export { Detector, createDetector, isAgentJudgeEnabled, DEFAULT_TOP_K } from './core/detector.js';
+export type { DetectorOptions, CategoryAggregationOptions } from './core/detector.js';
+export { BUILTIN_STAGE_ORDER, DEFAULT_STAGE_ORDER } from './core/stages.js';
+export type { DetectionStage, StageContext, StageOutput } from './core/stages.js';
+export {
+  LLMJudge,
+  createJudge,
+  parseJudgeResponse,
+  readJudgeNonce,
+  validateJudgeOutput,
+  judgeFailure,
+  createJudgeNonce,
+  spotlightContent,
+  LAYER1_REVIEW_SCORE,
+  LAYER1_STRONG_SCORE,
+  JUDGE_VERDICTS,
+  JUDGE_CATEGORIES,
+  JUDGE_RESPONSE_SCHEMA,
+  JUDGE_RESPONSE_FORMAT,
+  DATAMARK,
+  COPY_MIN_WORDS,
+  JUDGE_SYSTEM_PROMPT,
+} from './core/judge.js';
+export type {
+  JudgeResult,
+  JudgeVerdict,
+  JudgeCategory,
+  JudgeContext,
+  JudgeInputEncoding,
+  JudgeResponseCheck,
+  JudgeVote,
+  Judge,
+} from './core/judge.js';
+export { JudgeEnsemble, combineVotes, VOTING_STRATEGIES, JUDGE_DISAGREEMENT } from './core/judge-ensemble.js';
+export type { VotingStrategy, EnsembleMember, JudgeEnsembleOptions } from './core/judge-ensemble.js';
+export {
+  OpenAILLMProvider,
+  OpenAICompatibleLLMProvider,
+  AnthropicLLMProvider,
+  FakeLLMProvider,
+  createLLMProvider,
+  LLM_PROVIDER_TYPES,
+  DEFAULT_LLM_TIMEOUT_MS,
+  DEFAULT_LLM_MAX_TOKENS,
+} from './core/llm-providers.js';
+export type { LLMProvider, LLMProviderType, LLMProviderConfig, LLMCompletionRequest } from './core/llm-providers.js';
 export {
   parseAgentResponse,
   buildAgentEvaluationPrompt,
   shouldApplyLayer3Verdict,
   createAgentJudgeRequest,
   applyAgentJudgeResult,
+  verifyAgentJudgeResponse,
+  hashContent,
+  createAgentJudgeKey,
+  loadAgentJudgeKey,
   AGENT_JUDGE_SYSTEM_PROMPT,
   LAYER3_OVERRIDE_THRESHOLD,
 } from './core/agent-judge.js';
-export type { AgentJudgeRequest } from './core/agent-judge.js';
+export type {
+  AgentJudgeRequest,
+  AgentJudgeMismatch,
+  AgentJudgeMismatchKind,
+  AgentJudgeBinding,
+} from './core/agent-judge.js';
 export { Notifier, createNotifier } from './core/notifications.js';
 export type {
   NotifierConfig,
@@ -41,16 +96,116 @@ export type {
 } from './core/notifications.js';
 export { BaselineTracker, containsInstruction, createBaselineTracker } from './core/baseline.js';
 export type { BaselineConfig, BaselineStats, AnomalyResult, AnomalySignal } from './core/baseline.js';
-export { INSPECTION_TRIGGERS, ALL_PATTERNS, layer1Triage, hasLayer1Match } from './core/patterns.js';
-export type { PatternMatch } from './core/patterns.js';
+export { INSPECTION_TRIGGERS, ALL_PATTERNS, layer1Triage, hasLayer1Match, getLayer1Matcher } from './core/patterns.js';
+export type { PatternMatch, TriggerPattern } from './core/patterns.js';
+export { Layer1Matcher, analyzePattern, foldCase, DEFAULT_MATCHER_OPTIONS } from './core/matcher.js';
+export type { MatcherOptions, MatcherResult, PatternAnalysis } from './core/matcher.js';
+export {
+  getBuiltinRules,
+  buildRuleSet,
+  loadRuleFile,
+  loadRuleFiles,
+  validateRule,
+  keywordsToPattern,
+  testRuleExamples,
+  lintRules,
+  scoreLayer1,
+  CATEGORY_SEVERITY,
+  RULE_SEVERITIES,
+  SEVERITY_SCORES,
+  CATEGORY_SCORE_BONUS,
+} from './core/rules.js';
+export type {
+  PatternRule,
+  RuleFile,
+  RuleSeverity,
+  RuleExamples,
+  RuleLintIssue,
+  RuleExampleFailure,
+  Layer1Contribution,
+  Layer1Score,
+} from './core/rules.js';
+export {
+  PolicyEngine,
+  DEFAULT_POLICY_RULES,
+  POLICY_ACTIONS,
+  loadPolicyFile,
+  validatePolicyRule,
+  isAllowingAction,
+  getDetectionCategories,
+} from './core/policy.js';
+export type {
+  PolicyAction,
+  PolicyConditions,
+  PolicyRule,
+  PolicyFile,
+  PolicyInput,
+  PolicyDecision,
+} from './core/policy.js';
+export { redactText, findRedactionRegions, findUnlocatedFinding, DEFAULT_REDACTION } from './core/redaction.js';
+export type { RedactionOptions, RedactedFragment, RedactionResult } from './core/redaction.js';
+export { scanSecrets, luhnCheck, shannonEntropy, DEFAULT_SECRET_SCAN } from './core/secrets.js';
+export type { SecretFinding, SecretKind, SecretType, SecretScanOptions } from './core/secrets.js';
+export { checkReputation, DEFAULT_REPUTATION, REPUTATION_SCORES, BUILTIN_REPUTATION_LIST } from './core/reputation.js';
+export type { ReputationFinding, ReputationOptions, ReputationCategory, IndicatorType } from './core/reputation.js';
 export { EmbeddingClient } from './core/embeddings.js';
-export { ATTACK_EXEMPLARS } from './core/exemplars.js';
+export type { EmbeddingProvider, EmbeddingClientOptions } from './core/embeddings.js';
+export {
+  OpenAIEmbeddingProvider,
+  OpenAICompatibleEmbeddingProvider,
+  StubEmbeddingProvider,
+  createEmbeddingProvider,
+} from './core/embedding-providers.js';
+export type { EmbeddingProviderType, EmbeddingProviderConfig } from './core/embedding-providers.js';
+export { LocalEmbeddingProvider, LOCAL_EMBEDDING_DIMENSIONS } from './core/local-embeddings.js';
+export { ATTACK_EXEMPLARS, mergeExemplars } from './core/exemplars.js';
+export type { AttackExemplar } from './core/exemplars.js';
+export {
+  getNormalizedVariants,
+  foldText,
+  foldLeetspeak,
+  DEFAULT_NORMALIZATION,
+} from './core/normalization.js';
+export type { NormalizationStep, NormalizationOptions, NormalizedVariant } from './core/normalization.js';
+export { detectLanguage, UNKNOWN_LANGUAGE } from './core/language.js';
+export type { LanguageDetection } from './core/language.js';
+export { LOCALES, SUPPORTED_LANGUAGES, getLocaleExemplars } from './core/locales/index.js';
+export type { LocalePack } from './core/locales/index.js';
+export { extractHiddenContent, mayHideContent } from './core/hidden-content.js';
+export type { HiddenChannel, HiddenSegment, ExtractedContent } from './core/hidden-content.js';
+export { chunkText, DEFAULT_CHUNKING } from './core/chunking.js';
+export type { TextChunk, ChunkingOptions } from './core/chunking.js';
+export { BENIGN_EXEMPLARS, DEFAULT_BENIGN_MARGIN, mergeBenignExemplars } from './core/benign-exemplars.js';
+export type { BenignExemplar } from './core/benign-exemplars.js';
+export {
+  loadExemplarPack,
+  loadExemplarPacks,
+  saveExemplarPack,
+  formatExemplarPack,
+  validateExemplar,
+  exemplarId,
+} from './core/exemplar-packs.js';
+export type { ExemplarPack } from './core/exemplar-packs.js';
+export {
+  ExemplarLearner,
+  inferCategory,
+  DEFAULT_LEARNING_DEDUP_THRESHOLD,
+  LEARNED_CATEGORY,
+  BENIGN_CATEGORY,
+} from './core/exemplar-learning.js';
+export type { ExemplarLearnerOptions, LearnResult } from './core/exemplar-learning.js';
 
 // Storage
 export { ProvenanceStore } from './storage/provenance.js';
 export { QuarantineStore } from './storage/quarantine.js';
 export { MemoryStore } from './storage/memory.js';
+export { EmbeddingCache, DEFAULT_EMBEDDING_CACHE_SIZE } from './storage/embedding-cache.js';
+export type { EmbeddingCacheNamespace, EmbeddingCacheStats } from './storage/embedding-cache.js';
+export { LearnedExemplarStore } from './storage/learned-exemplars.js';
+export type { LearnedExemplar, LearnedExemplarKind } from './storage/learned-exemplars.js';
+export { AgentJudgeRequestStore, DEFAULT_AGENT_JUDGE_TTL_MS } from './storage/agent-judge-requests.js';
+export type { StoredAgentJudgeRequest, AgentJudgeRequestStatus, AgentJudgeOutcome } from './storage/agent-judge-requests.js';
 
 // Ingress tagging
 export { IngressTagger } from './tagger/index.js';
-export type { TagResult, TagOptions } from './tagger/index.js';
+export type { TagResult, TagOptions, AgentJudgeResolution } from './tagger/index.js';
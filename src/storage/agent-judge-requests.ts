@@ -0,0 +1,279 @@
+import Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import type { TrustLevel, DetectionResult } from '../core/types.js';
+import type { JudgeVerdict } from '../core/judge.js';
+
+/**
+ * Lifecycle of a pending agent judge request
+ */
+export type AgentJudgeRequestStatus = 'pending' | 'resolved' | 'expired';
+
+/**
+ * What resolving a request did with the content
+ * - store: the verdict allowed the content and it was stored
+ * - release: the verdict allowed the content and it was handed back to the caller to store
+ * - quarantine: the content was quarantined (also the outcome of an expired request)
+ * - block: the policy dropped the content
+ */
+export type AgentJudgeOutcome = 'store' | 'release' | 'quarantine' | 'block';
+
+/**
+ * Default time an agent has to answer a request (24 hours)
+ */
+export const DEFAULT_AGENT_JUDGE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Agent judge request awaiting (or given) the agent's verdict
+ */
+export interface StoredAgentJudgeRequest {
+  /** Unique identifier, passed back with the agent's response */
+  id: string;
+  text: string;
+  source: string;
+  trustLevel: TrustLevel;
+  /** Detection result at the time of the request (including agentJudgeRequest) */
+  detection: DetectionResult;
+  /** Provenance record created when the content was tagged */
+  provenanceId?: string;
+  /** Quarantine record created when the request was resolved or settled after expiry */
+  quarantineId?: string;
+  createdAt: Date;
+  expiresAt: Date;
+  status: AgentJudgeRequestStatus;
+  /** When the verdict was applied, or the held content settled after expiry */
+  resolvedAt?: Date;
+  /** Verdict the request was resolved with */
+  verdict?: JudgeVerdict;
+  outcome?: AgentJudgeOutcome;
+}
+
+/**
+ * SQLite-based store for agent judge requests awaiting a verdict
+ */
+export class AgentJudgeRequestStore {
+  private db: Database.Database;
+
+  constructor(dbPath: string) {
+    this.db = new Database(dbPath);
+    this.initSchema();
+  }
+
+  /**
+   * Initialize database schema
+   */
+  private initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS agent_judge_requests (
+        id TEXT PRIMARY KEY,
+        text TEXT NOT NULL,
+        source TEXT NOT NULL,
+        trust_level TEXT NOT NULL,
+        detection TEXT NOT NULL,
+        provenance_id TEXT,
+        quarantine_id TEXT,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        status TEXT DEFAULT 'pending',
+        resolved_at TEXT,
+        verdict TEXT,
+        outcome TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_agent_judge_status ON agent_judge_requests(status);
+    `);
+  }
+
+  /**
+   * Add a pending request
+   */
+  add(options: {
+    text: string;
+    source: string;
+    trustLevel: TrustLevel;
+    detection: DetectionResult;
+    provenanceId?: string;
+    /** Time the agent has to answer (default: DEFAULT_AGENT_JUDGE_TTL_MS) */
+    ttlMs?: number;
+  }): StoredAgentJudgeRequest {
+    const id = uuidv4();
+    const createdAt = new Date();
+    const expiresAt = new Date(createdAt.getTime() + (options.ttlMs ?? DEFAULT_AGENT_JUDGE_TTL_MS));
+
+    const stmt = this.db.prepare(`
+      INSERT INTO agent_judge_requests (
+        id, text, source, trust_level, detection, provenance_id, created_at, expires_at, status
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending')
+    `);
+
+    stmt.run(
+      id,
+      options.text,
+      options.source,
+      options.trustLevel,
+      JSON.stringify(options.detection),
+      options.provenanceId ?? null,
+      createdAt.toISOString(),
+      expiresAt.toISOString()
+    );
+
+    return {
+      id,
+      text: options.text,
+      source: options.source,
+      trustLevel: options.trustLevel,
+      detection: options.detection,
+      provenanceId: options.provenanceId,
+      createdAt,
+      expiresAt,
+      status: 'pending',
+    };
+  }
+
+  /**
+   * Get a request by ID (expired requests are reported as expired)
+   */
+  get(id: string): StoredAgentJudgeRequest | null {
+    this.expire();
+    const row = this.db.prepare('SELECT * FROM agent_judge_requests WHERE id = ?').get(id) as AgentJudgeRequestRow | undefined;
+    return row ? this.rowToRequest(row) : null;
+  }
+
+  /**
+   * List requests, newest first (default: pending only)
+   */
+  list(options?: { status?: AgentJudgeRequestStatus; limit?: number }): StoredAgentJudgeRequest[] {
+    this.expire();
+    let query = 'SELECT * FROM agent_judge_requests WHERE status = ? ORDER BY created_at DESC';
+    const params: (string | number)[] = [options?.status ?? 'pending'];
+
+    if (options?.limit) {
+      query += ' LIMIT ?';
+      params.push(options.limit);
+    }
+
+    const rows = this.db.prepare(query).all(...params) as AgentJudgeRequestRow[];
+    return rows.map((row) => this.rowToRequest(row));
+  }
+
+  /**
+   * Claim a pending, unexpired request for resolution
+   * Returns false if it was already resolved or has expired, so a request
+   * is only ever resolved once.
+   */
+  claim(id: string): boolean {
+    const now = new Date().toISOString();
+    const result = this.db.prepare(`
+      UPDATE agent_judge_requests
+      SET status = 'resolved', resolved_at = ?
+      WHERE id = ? AND status = 'pending' AND expires_at > ?
+    `).run(now, id, now);
+    return result.changes > 0;
+  }
+
+  /**
+   * Claim an expired request whose held content hasn't been settled yet
+   * Returns false if another caller already settled it.
+   */
+  claimExpired(id: string): boolean {
+    const result = this.db.prepare(`
+      UPDATE agent_judge_requests
+      SET resolved_at = ?
+      WHERE id = ? AND status = 'expired' AND resolved_at IS NULL
+    `).run(new Date().toISOString(), id);
+    return result.changes > 0;
+  }
+
+  /**
+   * Release a claim (when resolving or settling the request failed)
+   * A resolved request goes back to pending; an expired one stays expired, unsettled.
+   */
+  unclaim(id: string): boolean {
+    const result = this.db.prepare(`
+      UPDATE agent_judge_requests
+      SET status = CASE status WHEN 'resolved' THEN 'pending' ELSE status END,
+        resolved_at = NULL, verdict = NULL, outcome = NULL
+      WHERE id = ? AND status IN ('resolved', 'expired')
+    `).run(id);
+    return result.changes > 0;
+  }
+
+  /**
+   * Record the verdict and outcome of a claimed request
+   */
+  complete(id: string, resolution: { verdict: JudgeVerdict; outcome: AgentJudgeOutcome; quarantineId?: string }): boolean {
+    const result = this.db.prepare(`
+      UPDATE agent_judge_requests
+      SET verdict = ?, outcome = ?, quarantine_id = ?
+      WHERE id = ? AND status IN ('resolved', 'expired') AND resolved_at IS NOT NULL
+    `).run(resolution.verdict, resolution.outcome, resolution.quarantineId ?? null, id);
+    return result.changes > 0;
+  }
+
+  /**
+   * Mark requests past their expiry as expired, returning how many were
+   */
+  expire(now: Date = new Date()): number {
+    const result = this.db.prepare(`
+      UPDATE agent_judge_requests SET status = 'expired' WHERE status = 'pending' AND expires_at <= ?
+    `).run(now.toISOString());
+    return result.changes;
+  }
+
+  /**
+   * Expired requests whose held content hasn't been settled, oldest first
+   */
+  listUnsettled(): StoredAgentJudgeRequest[] {
+    this.expire();
+    const rows = this.db.prepare(`
+      SELECT * FROM agent_judge_requests WHERE status = 'expired' AND resolved_at IS NULL ORDER BY created_at
+    `).all() as AgentJudgeRequestRow[];
+    return rows.map((row) => this.rowToRequest(row));
+  }
+
+  /**
+   * Close database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Convert database row to StoredAgentJudgeRequest
+   */
+  private rowToRequest(row: AgentJudgeRequestRow): StoredAgentJudgeRequest {
+    return {
+      id: row.id,
+      text: row.text,
+      source: row.source,
+      trustLevel: row.trust_level as TrustLevel,
+      detection: JSON.parse(row.detection),
+      provenanceId: row.provenance_id ?? undefined,
+      quarantineId: row.quarantine_id ?? undefined,
+      createdAt: new Date(row.created_at),
+      expiresAt: new Date(row.expires_at),
+      status: row.status as AgentJudgeRequestStatus,
+      resolvedAt: row.resolved_at ? new Date(row.resolved_at) : undefined,
+      verdict: (row.verdict as JudgeVerdict | null) ?? undefined,
+      outcome: (row.outcome as AgentJudgeOutcome | null) ?? undefined,
+    };
+  }
+}
+
+/**
+ * Database row type
+ */
+interface AgentJudgeRequestRow {
+  id: string;
+  text: string;
+  source: string;
+  trust_level: string;
+  detection: string;
+  provenance_id: string | null;
+  quarantine_id: string | null;
+  created_at: string;
+  expires_at: string;
+  status: string;
+  resolved_at: string | null;
+  verdict: string | null;
+  outcome: string | null;
+}
@@ -0,0 +1,263 @@
+import Database from 'better-sqlite3';
+import { createHash } from 'crypto';
+import { DEFAULT_EMBEDDING_CACHE_SIZE } from '../core/embeddings.js';
+
+export { DEFAULT_EMBEDDING_CACHE_SIZE };
+
+/**
+ * Identifies which provider/model produced a cached vector
+ */
+export interface EmbeddingCacheNamespace {
+  /** Provider name (e.g., 'openai', 'local'), with the endpoint for non-default base URLs */
+  provider: string;
+  /** Model identifier */
+  model: string;
+  /** Requested vector dimension (0 = provider default) */
+  dimensions?: number;
+}
+
+/**
+ * Embedding cache statistics
+ */
+export interface EmbeddingCacheStats {
+  /** Number of cached vectors */
+  entries: number;
+  /** Maximum number of vectors kept before LRU eviction */
+  maxEntries: number;
+  /** Approximate size of stored vectors in bytes */
+  sizeBytes: number;
+  /** Cache hits since this store was opened */
+  hits: number;
+  /** Cache misses since this store was opened */
+  misses: number;
+  /** Breakdown by provider and model */
+  byModel: Array<{ provider: string; model: string; dimensions: number; entries: number }>;
+}
+
+/**
+ * SHA-256 hash of the embedded text, used as the cache key
+ */
+export function hashText(text: string): string {
+  return createHash('sha256').update(text, 'utf8').digest('hex');
+}
+
+/**
+ * SQLite-backed embedding cache with LRU eviction
+ *
+ * Vectors are keyed by provider, model, dimension and SHA-256 of the text,
+ * so repeated scans (e.g., exemplar embeddings on every CLI run) cost no API calls.
+ */
+export class EmbeddingCache {
+  private db: Database.Database;
+  private maxEntries: number;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(dbPath: string, options: { maxEntries?: number } = {}) {
+    this.db = new Database(dbPath);
+    this.maxEntries = options.maxEntries ?? DEFAULT_EMBEDDING_CACHE_SIZE;
+    this.initSchema();
+  }
+
+  /**
+   * Initialize database schema
+   */
+  private initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS embedding_cache (
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        dimensions INTEGER NOT NULL DEFAULT 0,
+        text_hash TEXT NOT NULL,
+        embedding BLOB NOT NULL,
+        created_at TEXT NOT NULL,
+        last_accessed_at TEXT NOT NULL,
+        PRIMARY KEY (provider, model, dimensions, text_hash)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_embedding_cache_accessed ON embedding_cache(last_accessed_at);
+    `);
+  }
+
+  /**
+   * Get cached vectors for a batch of texts
+   * Returns only the texts that were found; marks them as recently used.
+   */
+  getMany(namespace: EmbeddingCacheNamespace, texts: string[]): Map<string, number[]> {
+    const results = new Map<string, number[]>();
+    const select = this.db.prepare(`
+      SELECT embedding FROM embedding_cache
+      WHERE provider = ? AND model = ? AND dimensions = ? AND text_hash = ?
+    `);
+    const touch = this.db.prepare(`
+      UPDATE embedding_cache SET last_accessed_at = ?
+      WHERE provider = ? AND model = ? AND dimensions = ? AND text_hash = ?
+    `);
+    const now = new Date().toISOString();
+    const dimensions = namespace.dimensions ?? 0;
+
+    this.db.transaction(() => {
+      for (const text of texts) {
+        const hash = hashText(text);
+        const row = select.get(namespace.provider, namespace.model, dimensions, hash) as
+          { embedding: Buffer } | undefined;
+
+        if (row) {
+          results.set(text, decodeVector(row.embedding));
+          touch.run(now, namespace.provider, namespace.model, dimensions, hash);
+          this.hits++;
+        } else {
+          this.misses++;
+        }
+      }
+    })();
+
+    return results;
+  }
+
+  /**
+   * Get a cached vector for a single text
+   */
+  get(namespace: EmbeddingCacheNamespace, text: string): number[] | null {
+    return this.getMany(namespace, [text]).get(text) ?? null;
+  }
+
+  /**
+   * Store vectors for a batch of texts, evicting least recently used entries
+   */
+  setMany(namespace: EmbeddingCacheNamespace, entries: Map<string, number[]>): void {
+    const upsert = this.db.prepare(`
+      INSERT OR REPLACE INTO embedding_cache (
+        provider, model, dimensions, text_hash, embedding, created_at, last_accessed_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    const now = new Date().toISOString();
+    const dimensions = namespace.dimensions ?? 0;
+
+    this.db.transaction(() => {
+      for (const [text, embedding] of entries) {
+        upsert.run(
+          namespace.provider,
+          namespace.model,
+          dimensions,
+          hashText(text),
+          encodeVector(embedding),
+          now,
+          now
+        );
+      }
+    })();
+
+    this.evict();
+  }
+
+  /**
+   * Store a vector for a single text
+   */
+  set(namespace: EmbeddingCacheNamespace, text: string, embedding: number[]): void {
+    this.setMany(namespace, new Map([[text, embedding]]));
+  }
+
+  /**
+   * Remove least recently used entries beyond the size limit
+   */
+  private evict(): void {
+    const excess = this.getTotal() - this.maxEntries;
+    if (excess <= 0) return;
+
+    this.db.prepare(`
+      DELETE FROM embedding_cache WHERE rowid IN (
+        SELECT rowid FROM embedding_cache ORDER BY last_accessed_at ASC LIMIT ?
+      )
+    `).run(excess);
+  }
+
+  /**
+   * Get total number of cached vectors
+   */
+  getTotal(): number {
+    const row = this.db.prepare('SELECT COUNT(*) as count FROM embedding_cache').get() as { count: number };
+    return row.count;
+  }
+
+  /**
+   * Maximum number of vectors kept before LRU eviction
+   */
+  getMaxEntries(): number {
+    return this.maxEntries;
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): EmbeddingCacheStats {
+    const size = this.db.prepare(
+      'SELECT COALESCE(SUM(LENGTH(embedding)), 0) as bytes FROM embedding_cache'
+    ).get() as { bytes: number };
+
+    const byModel = this.db.prepare(`
+      SELECT provider, model, dimensions, COUNT(*) as entries
+      FROM embedding_cache
+      GROUP BY provider, model, dimensions
+      ORDER BY entries DESC
+    `).all() as EmbeddingCacheStats['byModel'];
+
+    return {
+      entries: this.getTotal(),
+      maxEntries: this.maxEntries,
+      sizeBytes: size.bytes,
+      hits: this.hits,
+      misses: this.misses,
+      byModel,
+    };
+  }
+
+  /**
+   * Clear cached vectors, optionally only for one provider/model
+   * @returns Number of entries removed
+   */
+  clear(filter?: { provider?: string; model?: string }): number {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (filter?.provider) {
+      // Also clears the provider's entries for non-default endpoints (provider@baseURL)
+      conditions.push("(provider = ? OR provider LIKE ? ESCAPE '\\')");
+      params.push(filter.provider, filter.provider.replace(/[\\%_]/g, '\\$&') + '@%');
+    }
+    if (filter?.model) {
+      conditions.push('model = ?');
+      params.push(filter.model);
+    }
+
+    let query = 'DELETE FROM embedding_cache';
+    if (conditions.length > 0) {
+      query += ' WHERE ' + conditions.join(' AND ');
+    }
+
+    return this.db.prepare(query).run(...params).changes;
+  }
+
+  /**
+   * Close database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Serialize a vector as a Float64 blob
+ */
+function encodeVector(vector: number[]): Buffer {
+  return Buffer.from(new Float64Array(vector).buffer);
+}
+
+/**
+ * Deserialize a Float64 blob into a vector
+ */
+function decodeVector(blob: Buffer): number[] {
+  const copy = new Uint8Array(blob.byteLength);
+  copy.set(blob);
+  return Array.from(new Float64Array(copy.buffer));
+}
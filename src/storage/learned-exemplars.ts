@@ -0,0 +1,259 @@
+import Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import type { AttackExemplar } from '../core/exemplars.js';
+import type { BenignExemplar } from '../core/benign-exemplars.js';
+
+/**
+ * Whether a learned exemplar came from a rejected (attack) or approved (benign) item
+ */
+export type LearnedExemplarKind = 'attack' | 'benign';
+
+/**
+ * Exemplar learned from a reviewed quarantine item
+ */
+export interface LearnedExemplar {
+  /** Unique identifier */
+  id: string;
+  /** Attack (rejected) or benign (approved) */
+  kind: LearnedExemplarKind;
+  /** Exemplar text (the reviewed memory) */
+  text: string;
+  /** Attack category ('benign' for approved items) */
+  category: string;
+  /** Brief description */
+  description: string;
+  /** Quarantine item this was learned from */
+  quarantineId?: string;
+  /** Layer 3 reasoning recorded for the reviewed item */
+  reasoning?: string;
+  /** When the exemplar was learned */
+  learnedAt: Date;
+  /** Reviewer who rejected or approved the item */
+  learnedBy?: string;
+}
+
+/**
+ * SQLite-based store for exemplars learned from reviewer feedback
+ */
+export class LearnedExemplarStore {
+  private db: Database.Database;
+
+  constructor(dbPath: string) {
+    this.db = new Database(dbPath);
+    this.initSchema();
+  }
+
+  /**
+   * Initialize database schema
+   */
+  private initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS learned_exemplars (
+        id TEXT PRIMARY KEY,
+        text TEXT NOT NULL UNIQUE,
+        category TEXT NOT NULL,
+        description TEXT NOT NULL,
+        quarantine_id TEXT,
+        reasoning TEXT,
+        learned_at TEXT NOT NULL,
+        learned_by TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_learned_date ON learned_exemplars(learned_at);
+    `);
+
+    // Migration: add kind column if it doesn't exist
+    try {
+      this.db.exec(`ALTER TABLE learned_exemplars ADD COLUMN kind TEXT NOT NULL DEFAULT 'attack'`);
+    } catch { /* Column already exists */ }
+  }
+
+  /**
+   * Add a learned exemplar
+   * Returns the existing entry if the same text was already learned.
+   */
+  add(options: {
+    kind?: LearnedExemplarKind;
+    text: string;
+    category: string;
+    description: string;
+    quarantineId?: string;
+    reasoning?: string;
+    learnedBy?: string;
+  }): LearnedExemplar {
+    const existing = this.getByText(options.text);
+    if (existing) return existing;
+
+    const id = uuidv4();
+    const kind = options.kind ?? 'attack';
+    const learnedAt = new Date();
+
+    this.db.prepare(`
+      INSERT INTO learned_exemplars (
+        id, kind, text, category, description, quarantine_id, reasoning, learned_at, learned_by
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      id,
+      kind,
+      options.text,
+      options.category,
+      options.description,
+      options.quarantineId ?? null,
+      options.reasoning ?? null,
+      learnedAt.toISOString(),
+      options.learnedBy ?? null
+    );
+
+    return {
+      id,
+      kind,
+      text: options.text,
+      category: options.category,
+      description: options.description,
+      quarantineId: options.quarantineId,
+      reasoning: options.reasoning,
+      learnedAt,
+      learnedBy: options.learnedBy,
+    };
+  }
+
+  /**
+   * Get a learned exemplar by ID
+   */
+  get(id: string): LearnedExemplar | null {
+    const row = this.db.prepare('SELECT * FROM learned_exemplars WHERE id = ?').get(id) as
+      LearnedExemplarRow | undefined;
+    return row ? this.rowToExemplar(row) : null;
+  }
+
+  /**
+   * Get a learned exemplar by its text
+   */
+  getByText(text: string): LearnedExemplar | null {
+    const row = this.db.prepare('SELECT * FROM learned_exemplars WHERE text = ?').get(text) as
+      LearnedExemplarRow | undefined;
+    return row ? this.rowToExemplar(row) : null;
+  }
+
+  /**
+   * List learned exemplars, newest first
+   */
+  list(options?: { kind?: LearnedExemplarKind; category?: string; limit?: number }): LearnedExemplar[] {
+    let query = 'SELECT * FROM learned_exemplars';
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (options?.kind) {
+      conditions.push('kind = ?');
+      params.push(options.kind);
+    }
+    if (options?.category) {
+      conditions.push('category = ?');
+      params.push(options.category);
+    }
+
+    if (conditions.length > 0) {
+      query += ' WHERE ' + conditions.join(' AND ');
+    }
+
+    query += ' ORDER BY learned_at DESC';
+
+    if (options?.limit) {
+      query += ' LIMIT ?';
+      params.push(options.limit);
+    }
+
+    const rows = this.db.prepare(query).all(...params) as LearnedExemplarRow[];
+    return rows.map((row) => this.rowToExemplar(row));
+  }
+
+  /**
+   * Get learned exemplars in the form Layer 2 matches against
+   */
+  getExemplars(): AttackExemplar[] {
+    return this.list({ kind: 'attack' }).map((e) => ({
+      text: e.text,
+      category: e.category,
+      description: e.description,
+      source: 'learned',
+    }));
+  }
+
+  /**
+   * Get benign exemplars learned from approved items
+   */
+  getBenignExemplars(): BenignExemplar[] {
+    return this.list({ kind: 'benign' }).map((e) => ({
+      text: e.text,
+      description: e.description,
+      source: 'learned',
+    }));
+  }
+
+  /**
+   * Delete a learned exemplar
+   */
+  delete(id: string): boolean {
+    const result = this.db.prepare('DELETE FROM learned_exemplars WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  /**
+   * Delete all learned exemplars, optionally only of one kind
+   * @returns Number of entries removed
+   */
+  clear(kind?: LearnedExemplarKind): number {
+    return kind
+      ? this.db.prepare('DELETE FROM learned_exemplars WHERE kind = ?').run(kind).changes
+      : this.db.prepare('DELETE FROM learned_exemplars').run().changes;
+  }
+
+  /**
+   * Get total count, optionally for one kind
+   */
+  getTotal(kind?: LearnedExemplarKind): number {
+    const row = (kind
+      ? this.db.prepare('SELECT COUNT(*) as count FROM learned_exemplars WHERE kind = ?').get(kind)
+      : this.db.prepare('SELECT COUNT(*) as count FROM learned_exemplars').get()) as { count: number };
+    return row.count;
+  }
+
+  /**
+   * Convert database row to LearnedExemplar
+   */
+  private rowToExemplar(row: LearnedExemplarRow): LearnedExemplar {
+    return {
+      id: row.id,
+      kind: row.kind as LearnedExemplarKind,
+      text: row.text,
+      category: row.category,
+      description: row.description,
+      quarantineId: row.quarantine_id ?? undefined,
+      reasoning: row.reasoning ?? undefined,
+      learnedAt: new Date(row.learned_at),
+      learnedBy: row.learned_by ?? undefined,
+    };
+  }
+
+  /**
+   * Close database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Database row type
+ */
+interface LearnedExemplarRow {
+  id: string;
+  kind: string;
+  text: string;
+  category: string;
+  description: string;
+  quarantine_id: string | null;
+  reasoning: string | null;
+  learned_at: string;
+  learned_by: string | null;
+}
@@ -1,6 +1,6 @@
 import Database from 'better-sqlite3';
 import { v4 as uuidv4 } from 'uuid';
-import { TrustLevel, Memory, MemoryProvenance, DetectionResult } from '../core/types.js';
+import { TrustLevel, Memory, MemoryProvenance, DetectionResult, QuarantinedMemory } from '../core/types.js';
 import { IngressTagger, TagOptions } from '../tagger/index.js';
 import { ProvenanceStore } from './provenance.js';
 
@@ -10,8 +10,14 @@ import { ProvenanceStore } from './provenance.js';
 export interface WriteResult {
   /** Whether the write was allowed */
   allowed: boolean;
-  /** Memory ID if written, quarantine ID if quarantined */
+  /** Memory ID if written, quarantine ID if quarantined, provenance ID if blocked */
   id: string;
+  /** Quarantine ID of the fragments removed from a redacted memory */
+  quarantineId?: string;
+  /** Whether a redacted version of the text was written */
+  redacted?: boolean;
+  /** Agent judge request holding the content; resolveAgentJudgeRequest writes it if the verdict allows */
+  agentJudgeRequestId?: string;
   /** Detection result from analysis */
   detection: DetectionResult;
   /** Provenance metadata */
@@ -108,35 +114,72 @@ export class MemoryStore {
     // Run through tagger (detection + provenance)
     const tagResult = await this.tagger.tag(options);
 
-    // If quarantined, don't write to memory store
+    // If quarantined, blocked or held for the agent judge, don't write to memory store
     if (!tagResult.allowed) {
       return {
         allowed: false,
-        id: tagResult.quarantineId!,
+        id: tagResult.quarantineId ?? tagResult.provenance.id,
         detection: tagResult.detection,
         provenance: tagResult.provenance,
+        ...(tagResult.agentJudgeRequestId ? { agentJudgeRequestId: tagResult.agentJudgeRequestId } : {}),
       };
     }
 
-    // Write to memory store
-    const id = uuidv4();
-    const createdAt = new Date();
-
-    const stmt = this.db.prepare(`
-      INSERT INTO memories (id, text, provenance_id, created_at)
-      VALUES (?, ?, ?, ?)
-    `);
-
-    stmt.run(id, options.text, tagResult.provenance.id, createdAt.toISOString());
+    // Redacted writes store the sanitized text; the cut fragments are in quarantine
+    const id = this.insert(tagResult.redaction?.text ?? options.text, tagResult.provenance.id);
 
     return {
       allowed: true,
       id,
       detection: tagResult.detection,
       provenance: tagResult.provenance,
+      ...(tagResult.redaction ? { quarantineId: tagResult.quarantineId, redacted: true } : {}),
+    };
+  }
+
+  /**
+   * Apply the agent's verdict to content write() held, writing it if the verdict allows
+   */
+  resolveAgentJudgeRequest(requestId: string, agentResponse: string): WriteResult {
+    let memoryId: string | undefined;
+    const resolution = this.tagger.resolveAgentJudgeRequest(requestId, agentResponse, (request) => {
+      memoryId = this.insert(request.text, request.provenanceId!);
+    });
+    // Requests held by write() always carry the provenance record made when tagging
+    const provenance = this.provenanceStore.get(resolution.provenanceId!)!;
+
+    return {
+      allowed: resolution.allowed,
+      id: memoryId ?? resolution.quarantineId ?? provenance.id,
+      detection: resolution.detection,
+      provenance,
     };
   }
 
+  /**
+   * Insert a memory row, returning its ID
+   */
+  private insert(text: string, provenanceId: string): string {
+    const id = uuidv4();
+    this.db.prepare(`
+      INSERT INTO memories (id, text, provenance_id, created_at)
+      VALUES (?, ?, ?, ?)
+    `).run(id, text, provenanceId, new Date().toISOString());
+    return id;
+  }
+
+  /**
+   * Restore the original text of a redacted memory from its quarantined fragments
+   * Returns false if the item is not a redaction or its memory no longer exists.
+   */
+  restoreRedacted(quarantined: QuarantinedMemory): boolean {
+    if (!quarantined.redaction) return false;
+
+    const stmt = this.db.prepare('UPDATE memories SET text = ? WHERE provenance_id = ?');
+    const result = stmt.run(quarantined.redaction.originalText, quarantined.redaction.provenanceId);
+    return result.changes > 0;
+  }
+
   /**
    * Read memories with trust level filtering
    */
@@ -1,6 +1,7 @@
 import Database from 'better-sqlite3';
 import { v4 as uuidv4 } from 'uuid';
 import { TrustLevel, MemoryProvenance } from '../core/types.js';
+import type { PolicyAction } from '../core/policy.js';
 
 /**
  * SQLite-based provenance store for tracking memory metadata
@@ -34,6 +35,14 @@ export class ProvenanceStore {
       CREATE INDEX IF NOT EXISTS idx_provenance_session ON provenance(session_id);
       CREATE INDEX IF NOT EXISTS idx_provenance_timestamp ON provenance(timestamp);
     `);
+
+    // Migration: add policy decision columns if they don't exist
+    try {
+      this.db.exec(`ALTER TABLE provenance ADD COLUMN policy_action TEXT`);
+    } catch { /* Column already exists */ }
+    try {
+      this.db.exec(`ALTER TABLE provenance ADD COLUMN policy_rule TEXT`);
+    } catch { /* Column already exists */ }
   }
 
   /**
@@ -46,6 +55,8 @@ export class ProvenanceStore {
     triggerContext?: string;
     detectionScore?: number;
     flags?: string[];
+    policyAction?: PolicyAction;
+    policyRule?: string;
   }): MemoryProvenance {
     const id = uuidv4();
     const timestamp = new Date();
@@ -53,8 +64,8 @@ export class ProvenanceStore {
     const stmt = this.db.prepare(`
       INSERT INTO provenance (
         id, source, trust_level, timestamp, session_id,
-        trigger_context, detection_score, flags
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        trigger_context, detection_score, flags, policy_action, policy_rule
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
@@ -65,7 +76,9 @@ export class ProvenanceStore {
       options.sessionId ?? null,
       options.triggerContext ?? null,
       options.detectionScore ?? null,
-      options.flags ? JSON.stringify(options.flags) : null
+      options.flags ? JSON.stringify(options.flags) : null,
+      options.policyAction ?? null,
+      options.policyRule ?? null
     );
 
     return {
@@ -77,6 +90,8 @@ export class ProvenanceStore {
       triggerContext: options.triggerContext,
       detectionScore: options.detectionScore,
       flags: options.flags,
+      policyAction: options.policyAction,
+      policyRule: options.policyRule,
     };
   }
 
@@ -211,6 +226,8 @@ export class ProvenanceStore {
   update(id: string, updates: Partial<{
     detectionScore: number;
     flags: string[];
+    policyAction: PolicyAction;
+    policyRule: string | null;
   }>): boolean {
     const sets: string[] = [];
     const params: (string | number | null)[] = [];
@@ -223,6 +240,14 @@ export class ProvenanceStore {
       sets.push('flags = ?');
       params.push(JSON.stringify(updates.flags));
     }
+    if (updates.policyAction !== undefined) {
+      sets.push('policy_action = ?');
+      params.push(updates.policyAction);
+    }
+    if (updates.policyRule !== undefined) {
+      sets.push('policy_rule = ?');
+      params.push(updates.policyRule);
+    }
 
     if (sets.length === 0) return false;
 
@@ -254,6 +279,8 @@ export class ProvenanceStore {
       triggerContext: row.trigger_context ?? undefined,
       detectionScore: row.detection_score ?? undefined,
       flags: row.flags ? JSON.parse(row.flags) : undefined,
+      policyAction: (row.policy_action as PolicyAction | null) ?? undefined,
+      policyRule: row.policy_rule ?? undefined,
     };
   }
 
@@ -277,4 +304,6 @@ interface ProvenanceRow {
   trigger_context: string | null;
   detection_score: number | null;
   flags: string | null;
+  policy_action: string | null;
+  policy_rule: string | null;
 }
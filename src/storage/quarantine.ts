@@ -1,6 +1,6 @@
 import Database from 'better-sqlite3';
 import { v4 as uuidv4 } from 'uuid';
-import { TrustLevel, QuarantinedMemory, QuarantineStatus } from '../core/types.js';
+import { TrustLevel, QuarantinedMemory, QuarantineStatus, DetectionSpan, QuarantineRedaction } from '../core/types.js';
 
 /**
  * SQLite-based quarantine store for flagged memories
@@ -45,6 +45,12 @@ export class QuarantineStore {
     try {
       this.db.exec(`ALTER TABLE quarantine ADD COLUMN layer3_reasoning TEXT`);
     } catch { /* Column already exists */ }
+    try {
+      this.db.exec(`ALTER TABLE quarantine ADD COLUMN spans TEXT`);
+    } catch { /* Column already exists */ }
+    try {
+      this.db.exec(`ALTER TABLE quarantine ADD COLUMN redaction TEXT`);
+    } catch { /* Column already exists */ }
   }
 
   /**
@@ -59,6 +65,8 @@ export class QuarantineStore {
     layer2Exemplar?: string;
     layer3Verdict?: 'SAFE' | 'SUSPICIOUS' | 'DANGEROUS';
     layer3Reasoning?: string;
+    spans?: DetectionSpan[];
+    redaction?: QuarantineRedaction;
   }): QuarantinedMemory {
     const id = uuidv4();
     const quarantinedAt = new Date();
@@ -66,8 +74,8 @@ export class QuarantineStore {
     const stmt = this.db.prepare(`
       INSERT INTO quarantine (
         id, text, source, trust_level, layer1_flags, layer2_similarity,
-        layer2_exemplar, layer3_verdict, layer3_reasoning, quarantined_at, status
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending')
+        layer2_exemplar, layer3_verdict, layer3_reasoning, spans, redaction, quarantined_at, status
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending')
     `);
 
     stmt.run(
@@ -80,6 +88,8 @@ export class QuarantineStore {
       options.layer2Exemplar ?? null,
       options.layer3Verdict ?? null,
       options.layer3Reasoning ?? null,
+      options.spans ? JSON.stringify(options.spans) : null,
+      options.redaction ? JSON.stringify(options.redaction) : null,
       quarantinedAt.toISOString()
     );
 
@@ -93,6 +103,8 @@ export class QuarantineStore {
       layer2Exemplar: options.layer2Exemplar,
       layer3Verdict: options.layer3Verdict,
       layer3Reasoning: options.layer3Reasoning,
+      spans: options.spans,
+      redaction: options.redaction,
       quarantinedAt,
       status: 'pending',
     };
@@ -222,6 +234,8 @@ export class QuarantineStore {
       layer2Exemplar: row.layer2_exemplar ?? undefined,
       layer3Verdict: row.layer3_verdict as QuarantinedMemory['layer3Verdict'] ?? undefined,
       layer3Reasoning: row.layer3_reasoning ?? undefined,
+      spans: row.spans ? JSON.parse(row.spans) : undefined,
+      redaction: row.redaction ? JSON.parse(row.redaction) : undefined,
       quarantinedAt: new Date(row.quarantined_at),
       status: row.status as QuarantineStatus,
       reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : undefined,
@@ -250,6 +264,8 @@ interface QuarantineRow {
   layer2_exemplar: string | null;
   layer3_verdict: string | null;
   layer3_reasoning: string | null;
+  spans: string | null;
+  redaction: string | null;
   quarantined_at: string;
   status: string;
   reviewed_at: string | null;
@@ -1,25 +1,59 @@
 import { v4 as uuidv4 } from 'uuid';
-import { TrustLevel, MemoryProvenance, DetectionResult } from '../core/types.js';
+import { TrustLevel, MemoryProvenance, DetectionResult, QuarantinedMemory } from '../core/types.js';
 import { Detector } from '../core/detector.js';
 import { Notifier } from '../core/notifications.js';
 import { BaselineTracker, containsInstruction } from '../core/baseline.js';
+import { PolicyEngine, PolicyDecision, isAllowingAction } from '../core/policy.js';
+import { redactText, RedactionOptions, RedactionResult } from '../core/redaction.js';
+import { applyAgentJudgeResult } from '../core/agent-judge.js';
+import { judgeFailure } from '../core/judge.js';
 import { ProvenanceStore } from '../storage/provenance.js';
 import { QuarantineStore } from '../storage/quarantine.js';
+import { AgentJudgeRequestStore, AgentJudgeOutcome, StoredAgentJudgeRequest } from '../storage/agent-judge-requests.js';
 
 /**
  * Result of tagging a memory
  */
 export interface TagResult {
-  /** Whether the content was allowed (not quarantined) */
+  /** Whether the content was allowed (not quarantined, blocked or held for the agent); for redactions, only redaction.text is */
   allowed: boolean;
+  /** Policy decision for the content */
+  decision: PolicyDecision;
+  /** Set when the content was allowed with a warning */
+  warning?: string;
   /** Provenance metadata */
   provenance: MemoryProvenance;
   /** Detection result from analysis */
   detection: DetectionResult;
-  /** Quarantine ID if content was quarantined */
+  /** Quarantine ID if content (or, for redactions, the removed fragments) was quarantined */
   quarantineId?: string;
+  /** Sanitized text to store instead of the original (redact action) */
+  redaction?: RedactionResult;
   /** Whether agent self-evaluation is needed (borderline case) */
   needsAgentEvaluation?: boolean;
+  /** Stored agent judge request holding the content; resolving stores or quarantines it, expiring quarantines it */
+  agentJudgeRequestId?: string;
+}
+
+/**
+ * Final decision on content held for the agent judge
+ */
+export interface AgentJudgeResolution {
+  requestId: string;
+  /** Whether the content may be stored */
+  allowed: boolean;
+  /** What was done with the content */
+  outcome: AgentJudgeOutcome;
+  /** Policy decision with the agent's verdict applied */
+  decision: PolicyDecision;
+  /** Detection snapshot with the agent's verdict applied */
+  detection: DetectionResult;
+  /** The content the request was made for */
+  text: string;
+  /** Provenance record created when the content was tagged */
+  provenanceId?: string;
+  /** Quarantine record of the content, if it was quarantined */
+  quarantineId?: string;
 }
 
 /**
@@ -38,6 +72,33 @@ export interface TagOptions {
   triggerContext?: string;
 }
 
+/**
+ * Mark detection as failed when the policy blocks content the detection layers passed
+ */
+function applyDecision(detection: DetectionResult, decision: PolicyDecision): DetectionResult {
+  if (isAllowingAction(decision.action) || !detection.passed) return detection;
+
+  // Blocked by policy (e.g. an anomaly) rather than by the detection layers
+  return {
+    ...detection,
+    passed: false,
+    score: decision.ruleId === 'builtin.anomaly' ? Math.max(detection.score, detection.anomaly!.score) : detection.score,
+    reason: detection.reason + `; ${decision.reason}`,
+  };
+}
+
+/**
+ * Provenance flags for a detection result
+ */
+function provenanceFlags(detection: DetectionResult): string[] {
+  return [
+    ...detection.layer1.patterns,
+    ...[...new Set((detection.secrets ?? []).map((f) => `${f.type}:${f.kind}`))],
+    ...[...new Set((detection.reputation ?? []).map((f) => `${f.category}: ${f.host}`))],
+    ...(detection.layer3?.mismatch ? [`agent_judge_mismatch: ${detection.layer3.mismatch}`] : []),
+  ];
+}
+
 /**
  * Ingress tagger that analyzes and tags incoming content
  * with provenance metadata and detection results
@@ -48,6 +109,11 @@ export class IngressTagger {
   private quarantineStore: QuarantineStore;
   private notifier: Notifier | null;
   private baselineTracker: BaselineTracker | null;
+  private policy: PolicyEngine;
+  private redaction: RedactionOptions;
+  private agentJudgeStore: AgentJudgeRequestStore | null;
+  private agentJudgeTtlMs?: number;
+  private agentJudgeKey?: string;
   private currentSessionId: string;
 
   constructor(options: {
@@ -56,6 +122,16 @@ export class IngressTagger {
     quarantineStore: QuarantineStore;
     notifier?: Notifier;
     baselineTracker?: BaselineTracker;
+    /** Decides allow/quarantine/block (default: quarantine flagged content and strong anomalies) */
+    policy?: PolicyEngine;
+    /** How the redact action cuts flagged regions */
+    redaction?: RedactionOptions;
+    /** Persist agent judge requests so the verdict can be applied later by ID */
+    agentJudgeStore?: AgentJudgeRequestStore;
+    /** Time the agent has to answer a stored request */
+    agentJudgeTtlMs?: number;
+    /** Key the detector signs agent judge requests with (checked when resolving) */
+    agentJudgeKey?: string;
     sessionId?: string;
   }) {
     this.detector = options.detector;
@@ -63,6 +139,11 @@ export class IngressTagger {
     this.quarantineStore = options.quarantineStore;
     this.notifier = options.notifier ?? null;
     this.baselineTracker = options.baselineTracker ?? null;
+    this.policy = options.policy ?? new PolicyEngine();
+    this.redaction = options.redaction ?? {};
+    this.agentJudgeStore = options.agentJudgeStore ?? null;
+    this.agentJudgeTtlMs = options.agentJudgeTtlMs;
+    this.agentJudgeKey = options.agentJudgeKey;
     this.currentSessionId = options.sessionId ?? uuidv4();
   }
 
@@ -71,6 +152,7 @@ export class IngressTagger {
    */
   async tag(options: TagOptions): Promise<TagResult> {
     const sessionId = options.sessionId ?? this.currentSessionId;
+    this.settleExpiredAgentJudgeRequests();
     const hasInstruction = containsInstruction(options.text);
 
     // Run detection pipeline (pass source for Layer 3 context)
@@ -95,16 +177,6 @@ export class IngressTagger {
         },
       };
 
-      // If anomaly score is high, flag content
-      if (anomalyResult.score >= 0.7 && !anomalyResult.inLearningPeriod) {
-        detection = {
-          ...detection,
-          passed: false,
-          score: Math.max(detection.score, anomalyResult.score),
-          reason: detection.reason + `; Anomaly: ${anomalyResult.signals.map(s => s.description).join(', ')}`,
-        };
-      }
-
       // Record memory in baseline (for learning)
       await this.baselineTracker.recordMemory({
         text: options.text,
@@ -114,6 +186,11 @@ export class IngressTagger {
       });
     }
 
+    // Decide what happens to the content
+    const decision = this.policy.evaluate({ detection, source: options.source, trustLevel: options.trustLevel });
+    const allowed = isAllowingAction(decision.action);
+    detection = applyDecision(detection, decision);
+
     // Create provenance record
     const provenance = this.provenanceStore.create({
       source: options.source,
@@ -121,11 +198,53 @@ export class IngressTagger {
       sessionId,
       triggerContext: options.triggerContext,
       detectionScore: detection.score,
-      flags: detection.layer1.patterns,
+      flags: provenanceFlags(detection),
+      policyAction: decision.action,
+      policyRule: decision.ruleId ?? undefined,
     });
 
-    // If detection failed, quarantine the content
-    if (!detection.passed) {
+    if (decision.action === 'block') {
+      // Dropped without storing
+      return { allowed: false, decision, provenance, detection };
+    }
+
+    // Store the rest of the text and quarantine only the flagged fragments
+    if (decision.action === 'redact') {
+      const redaction = redactText(options.text, detection, this.redaction);
+      if (redaction.complete && redaction.fragments.length > 0 && redaction.text.trim() !== '') {
+        const quarantined = this.quarantineStore.add({
+          text: redaction.fragments.map((f) => f.text).join('\n'),
+          source: options.source,
+          trustLevel: options.trustLevel,
+          layer1Flags: detection.layer1.patterns,
+          layer2Similarity: detection.layer2.similarity,
+          layer2Exemplar: detection.layer2.matchedExemplar,
+          layer3Verdict: detection.layer3?.verdict,
+          layer3Reasoning: detection.layer3?.reasoning,
+          redaction: { provenanceId: provenance.id, originalText: options.text, fragments: redaction.fragments },
+        });
+        this.notify(quarantined, `Redacted: ${detection.reason}`);
+
+        return {
+          allowed: true,
+          decision,
+          provenance,
+          detection,
+          quarantineId: quarantined.id,
+          redaction,
+        };
+      }
+      // Some finding couldn't be located (or nothing would be left): quarantine the whole text
+    }
+
+    // Borderline content waits for the agent's verdict; resolving the request stores or quarantines it
+    const agentJudgeRequestId = this.holdForAgentJudge(options, detection, provenance.id);
+    if (agentJudgeRequestId) {
+      return { allowed: false, decision, provenance, detection, needsAgentEvaluation: true, agentJudgeRequestId };
+    }
+
+    // Quarantine the content
+    if (!allowed) {
       const quarantined = this.quarantineStore.add({
         text: options.text,
         source: options.source,
@@ -135,17 +254,14 @@ export class IngressTagger {
         layer2Exemplar: detection.layer2.matchedExemplar,
         layer3Verdict: detection.layer3?.verdict,
         layer3Reasoning: detection.layer3?.reasoning,
+        spans: detection.spans,
       });
 
-      // Send notification
-      if (this.notifier) {
-        this.notifier.notify(quarantined, detection.reason).catch((err) => {
-          console.error('[memfw] Notification error:', err);
-        });
-      }
+      this.notify(quarantined, detection.reason);
 
       return {
         allowed: false,
+        decision,
         provenance,
         detection,
         quarantineId: quarantined.id,
@@ -154,12 +270,200 @@ export class IngressTagger {
 
     return {
       allowed: true,
+      decision,
+      ...(decision.action === 'allow_with_warning' ? { warning: decision.reason } : {}),
       provenance,
       detection,
       needsAgentEvaluation: !!detection.agentJudgeRequest,
     };
   }
 
+  /**
+   * Apply the agent's verdict to a stored request and finalize the decision
+   *
+   * The verdict goes through applyAgentJudgeResult (so it can't override a
+   * strong Layer 2 signal) and the policy is evaluated again. Content that
+   * is now allowed is passed to store (MemoryStore writes it there), or
+   * released to the caller when there is no store; otherwise it is
+   * quarantined or dropped. A request can only be resolved once, and not
+   * after it expires; if resolving fails, the request is left pending. A
+   * response not bound to the request (wrong nonce, content or key) counts
+   * as a SUSPICIOUS verdict and is recorded as an agent_judge_mismatch
+   * provenance flag.
+   */
+  resolveAgentJudgeRequest(
+    id: string,
+    agentResponse: string,
+    store?: (request: StoredAgentJudgeRequest) => void
+  ): AgentJudgeResolution {
+    if (!this.agentJudgeStore) {
+      throw new Error('No agent judge request store configured');
+    }
+    this.settleExpiredAgentJudgeRequests();
+    const request = this.agentJudgeStore.get(id);
+    if (!request) {
+      throw new Error(`Agent judge request not found: ${id}`);
+    }
+    if (!this.agentJudgeStore.claim(id)) {
+      const current = this.agentJudgeStore.get(id) ?? request;
+      throw new Error(`Agent judge request ${id} is ${current.status === 'expired' ? 'expired' : 'already resolved'}`);
+    }
+
+    try {
+      let detection = applyAgentJudgeResult(request.detection, agentResponse, {
+        key: this.agentJudgeKey,
+        text: request.text,
+      });
+      const decision = this.policy.evaluate({ detection, source: request.source, trustLevel: request.trustLevel });
+      const allowed = isAllowingAction(decision.action);
+      detection = applyDecision(detection, decision);
+      const verdict = detection.layer3?.verdict ?? 'SUSPICIOUS';
+
+      if (request.provenanceId) {
+        this.provenanceStore.update(request.provenanceId, {
+          detectionScore: detection.score,
+          flags: provenanceFlags(detection),
+          policyAction: decision.action,
+          policyRule: decision.ruleId,
+        });
+      }
+
+      let outcome: AgentJudgeOutcome;
+      let quarantineId: string | undefined;
+      if (allowed) {
+        store?.(request);
+        outcome = store ? 'store' : 'release';
+      } else if (decision.action === 'block') {
+        outcome = 'block';
+      } else {
+        const quarantined = this.quarantineStore.add({
+          text: request.text,
+          source: request.source,
+          trustLevel: request.trustLevel,
+          layer1Flags: detection.layer1.patterns,
+          layer2Similarity: detection.layer2.similarity,
+          layer2Exemplar: detection.layer2.matchedExemplar,
+          layer3Verdict: verdict,
+          layer3Reasoning: detection.layer3?.reasoning,
+          spans: detection.spans,
+        });
+        this.notify(quarantined, detection.reason);
+        quarantineId = quarantined.id;
+        outcome = 'quarantine';
+      }
+
+      this.agentJudgeStore.complete(id, { verdict, outcome, quarantineId });
+
+      return {
+        requestId: id,
+        allowed,
+        outcome,
+        decision,
+        detection,
+        text: request.text,
+        ...(request.provenanceId ? { provenanceId: request.provenanceId } : {}),
+        ...(quarantineId ? { quarantineId } : {}),
+      };
+    } catch (error) {
+      // Leave the request pending so the verdict can be applied again
+      this.agentJudgeStore.unclaim(id);
+      throw error;
+    }
+  }
+
+  /**
+   * Quarantine content whose agent judge request expired unanswered
+   *
+   * The missing verdict counts as SUSPICIOUS, like an unusable answer. Runs
+   * before each tag() and resolveAgentJudgeRequest(); returns what was settled.
+   */
+  settleExpiredAgentJudgeRequests(): AgentJudgeResolution[] {
+    if (!this.agentJudgeStore) return [];
+
+    const settled: AgentJudgeResolution[] = [];
+    for (const request of this.agentJudgeStore.listUnsettled()) {
+      if (!this.agentJudgeStore.claimExpired(request.id)) continue;
+
+      try {
+        const detection: DetectionResult = {
+          ...request.detection,
+          passed: false,
+          score: Math.max(request.detection.score, 0.7),
+          layer3: { evaluated: true, ...judgeFailure('Agent judge request expired without a verdict') },
+          reason: request.detection.reason + '; Layer 3 agent judge request expired; treated as SUSPICIOUS',
+          agentJudgeRequest: undefined,
+        };
+        const decision: PolicyDecision = { action: 'quarantine', ruleId: null, reason: 'Agent judge request expired' };
+
+        if (request.provenanceId) {
+          this.provenanceStore.update(request.provenanceId, {
+            detectionScore: detection.score,
+            flags: provenanceFlags(detection),
+            policyAction: decision.action,
+            policyRule: decision.ruleId,
+          });
+        }
+
+        const quarantined = this.quarantineStore.add({
+          text: request.text,
+          source: request.source,
+          trustLevel: request.trustLevel,
+          layer1Flags: detection.layer1.patterns,
+          layer2Similarity: detection.layer2.similarity,
+          layer2Exemplar: detection.layer2.matchedExemplar,
+          layer3Verdict: 'SUSPICIOUS',
+          layer3Reasoning: detection.layer3?.reasoning,
+          spans: detection.spans,
+        });
+        this.notify(quarantined, detection.reason);
+        this.agentJudgeStore.complete(request.id, { verdict: 'SUSPICIOUS', outcome: 'quarantine', quarantineId: quarantined.id });
+
+        settled.push({
+          requestId: request.id,
+          allowed: false,
+          outcome: 'quarantine',
+          decision,
+          detection,
+          text: request.text,
+          ...(request.provenanceId ? { provenanceId: request.provenanceId } : {}),
+          quarantineId: quarantined.id,
+        });
+      } catch (error) {
+        // Leave the request unsettled so the next call retries it
+        this.agentJudgeStore.unclaim(request.id);
+        throw error;
+      }
+    }
+    return settled;
+  }
+
+  /**
+   * Store the detection's agent judge request, if any, returning its ID
+   */
+  private holdForAgentJudge(options: TagOptions, detection: DetectionResult, provenanceId: string): string | undefined {
+    if (!this.agentJudgeStore || !detection.agentJudgeRequest) return undefined;
+
+    return this.agentJudgeStore.add({
+      text: options.text,
+      source: options.source,
+      trustLevel: options.trustLevel,
+      detection,
+      provenanceId,
+      ttlMs: this.agentJudgeTtlMs,
+    }).id;
+  }
+
+  /**
+   * Send a quarantine notification (errors are logged, not thrown)
+   */
+  private notify(quarantined: QuarantinedMemory, reason: string): void {
+    if (this.notifier) {
+      this.notifier.notify(quarantined, reason).catch((err) => {
+        console.error('[memfw] Notification error:', err);
+      });
+    }
+  }
+
   /**
    * Quick tag without full detection (Layer 1 only)
    * Useful for high-volume, trusted sources